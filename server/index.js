@@ -5,6 +5,8 @@ import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import iconv from 'iconv-lite';
+import { COMMAND_ID_LIMIT, JOG_WATCHDOG_TIMEOUT, PROTOCOL_VERSION, validateClientMessage } from '../shared/proxyMessages.js';
+import { DEFAULT_RECONNECT_POLICY, computeReconnectDelay } from '../shared/reconnectPolicy.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 dotenv.config({ path: path.join(__dirname, '../.env') });
@@ -17,24 +19,41 @@ let ROBOT_PORT = Number(process.env.VITE_ROBOT_PORT) || 502;
 let PROTOCOL = ROBOT_PORT === 5000 ? 'TCP_STRING' : 'MODBUS_TCP';
 let currentRobotPort = ROBOT_PORT;
 
+// Robot link mode:
+// CLIENT        - proxy dials the robot (default)
+// VISION_SERVER - proxy listens as the vision server and the robot dials in (RCS2 V1.5.3)
+const LINK_MODE = (process.env.VITE_ROBOT_LINK_MODE || 'client').toLowerCase() === 'server'
+    ? 'VISION_SERVER'
+    : 'CLIENT';
+const VISION_SERVER_PORT = Number(process.env.VITE_VISION_SERVER_PORT) || 5000;
+
 console.log('=== ROBOT PROXY SERVER STARTING ===');
 console.log(`Configuration:`);
 console.log(`  VITE_PROXY_PORT: ${PORT}`);
 console.log(`  VITE_ROBOT_IP: ${ROBOT_IP}`);
 console.log(`  VITE_ROBOT_PORT: ${ROBOT_PORT}`);
 console.log(`  PROTOCOL: ${PROTOCOL}`);
+console.log(`  LINK_MODE: ${LINK_MODE}`);
+if (LINK_MODE === 'VISION_SERVER') {
+    console.log(`  VITE_VISION_SERVER_PORT: ${VISION_SERVER_PORT}`);
+}
 console.log('─────────────────────────────────');
 
 // Protocol constants
 const COMMAND_TIMEOUT = 5000; // 5 seconds
+
+// Ids of the proxy's own commands, outside the range frontends use
+const INIT_COMMAND_ID = COMMAND_ID_LIMIT;
+const JOG_WATCHDOG_STOP_ID = COMMAND_ID_LIMIT + 1;
 const HEARTBEAT_INTERVAL = 30000; // 30 seconds
-const MODBUS_POLL_INTERVAL = 100; // 100ms for Modbus TCP polling
+const VISION_IDLE_TIMEOUT = 60000; // Robot sends 0x20 every 18s when idle
 
 // Robot encoding for TCP String Protocol
-let robotEncoding = 'utf8';
-
-// Modbus polling
-let modbusPollTimer = null;
+// 'auto' starts with UTF-8 and switches on the first frame that does not decode;
+// a CONNECT target may fix it instead
+let configuredEncoding = 'auto';
+const initialEncoding = () => (configuredEncoding === 'auto' ? 'utf8' : configuredEncoding);
+let robotEncoding = initialEncoding();
 
 const wss = new WebSocketServer({ port: PORT });
 let robotSocket = null;
@@ -42,65 +61,85 @@ let modbusClient = null;
 let isRobotConnected = false;
 let robotConnectAttempted = false;
 let responseBuffer = '';
-let pendingCommand = null;
-
-let frontendClient = null;
+// Commands written to the robot, by robot id: { ws, clientCommandId, command, motion, resolve, reject, timeout }
+// Every frontend numbers its commands from 0, so the proxy gives each one a robot id of its own
+const pendingCommands = new Map();
+let lastRobotCommandId = 0;
+
+// Connected frontends: ws -> { id, address, connectedAt }
+// Any number may observe; only the lease holder may control the robot
+const clients = new Map();
+let nextClientId = 1;
+let leaseHolder = null;     // id of the client holding the control lease
+let leaseRequests = [];     // ids of clients waiting for it, oldest first
 
 console.log(`[Proxy] WebSocket server listening on port ${PORT}`);
 
+// Send a message of the shared contract (shared/proxyMessages.js) to a frontend
+const sendMessage = (ws, message) => {
+    if (ws && ws.readyState === 1) {
+        ws.send(JSON.stringify({ v: PROTOCOL_VERSION, ...message }));
+    }
+};
+
+// Telemetry and link state go to every connected frontend
+const broadcast = (message) => {
+    for (const ws of clients.keys()) sendMessage(ws, message);
+};
+
+// ============ ROBOT LINK RETRY ============
+// Only the proxy retries a lost robot link (frontends show the attempt from STATUS).
+// One timer: a new schedule or a connectRobot replaces the pending retry.
+
+let robotRetryTimer = null;
+let robotRetryAttempt = 0;
+
+const cancelRobotRetry = () => {
+    clearTimeout(robotRetryTimer);
+    robotRetryTimer = null;
+};
+
+// Schedule the next attempt, returns the STATUS fields announcing it
+const scheduleRobotRetry = () => {
+    cancelRobotRetry();
+    robotRetryAttempt++;
+    const delay = computeReconnectDelay(DEFAULT_RECONNECT_POLICY, robotRetryAttempt);
+    console.log(`[Proxy] Retrying robot link in ${(delay / 1000).toFixed(1)}s (attempt ${robotRetryAttempt})`);
+    robotRetryTimer = setTimeout(() => {
+        robotRetryTimer = null;
+        connectRobot();
+    }, delay);
+    return { attempt: robotRetryAttempt, retryIn: delay };
+};
+
 // ============ MODBUS TCP FUNCTIONS ============
 
 const initModbus = () => {
-    robotSocket = new net.Socket();
-    modbusClient = new jsmodbus.client.TCP(robotSocket);
+    const socket = new net.Socket();
+    robotSocket = socket;
+    modbusClient = new jsmodbus.client.TCP(socket);
 
-    robotSocket.connect({ host: ROBOT_IP, port: ROBOT_PORT }, () => {
+    socket.connect({ host: ROBOT_IP, port: ROBOT_PORT }, () => {
         console.log('[Proxy] ✓ Modbus TCP connection established');
         isRobotConnected = true;
+        notifyRobotConnected();
 
         // Test connection by reading registers
         testModbusConnection();
 
-        // Start polling loop
-        startModbusPolling();
+        // Telemetry is polled by the frontend (READ_REGISTER per register group)
     });
 
     // Don't log raw data - jsmodbus handles parsing internally
     // robotSocket.on('data', ...) - removed to prevent infinite logging
 
-    robotSocket.on('error', handleModbusError);
-    robotSocket.on('close', handleModbusClose);
-};
-
-const startModbusPolling = () => {
-    if (modbusPollTimer) clearInterval(modbusPollTimer);
-    
-    modbusPollTimer = setInterval(async () => {
-        if (!isRobotConnected || !modbusClient) return;
-        
-        try {
-            // Poll registers 0-20 for robot data
-            const response = await modbusClient.readHoldingRegisters(0, 20);
-            const values = response.response.body.values;
-            
-            // Broadcast to frontend
-            if (frontendClient && frontendClient.readyState === 1) {
-                frontendClient.send(JSON.stringify({
-                    type: 'REGISTER_DATA',
-                    values: values
-                }));
-            }
-        } catch (err) {
-            // Silent fail for polling
-        }
-    }, MODBUS_POLL_INTERVAL);
-};
-
-const stopModbusPolling = () => {
-    if (modbusPollTimer) {
-        clearInterval(modbusPollTimer);
-        modbusPollTimer = null;
-    }
+    // Ignore events from sockets replaced by a newer connection attempt
+    socket.on('error', (err) => {
+        if (socket === robotSocket) handleModbusError(err);
+    });
+    socket.on('close', () => {
+        if (socket === robotSocket) handleModbusClose();
+    });
 };
 
 const testModbusConnection = async () => {
@@ -121,17 +160,13 @@ const handleModbusError = (err) => {
     robotSocket = null;
     modbusClient = null;
 
-    if (frontendClient && frontendClient.readyState === 1) {
-        frontendClient.send(JSON.stringify({
-            type: 'STATUS',
-            connected: false,
-            error: err.message,
-            errorCode: err.code
-        }));
-    }
-
-    console.log('[Proxy] Retrying in 5 seconds...');
-    setTimeout(connectRobot, 5000);
+    broadcast({
+        type: 'STATUS',
+        connected: false,
+        error: err.message,
+        errorCode: err.code,
+        ...scheduleRobotRetry()
+    });
 };
 
 const handleModbusClose = () => {
@@ -139,40 +174,39 @@ const handleModbusClose = () => {
     isRobotConnected = false;
     robotSocket = null;
     modbusClient = null;
-    
-    // Stop polling
-    stopModbusPolling();
-
-    if (frontendClient && frontendClient.readyState === 1) {
-        frontendClient.send(JSON.stringify({
-            type: 'STATUS',
-            connected: false,
-            reason: 'Robot closed connection'
-        }));
-    }
 
-    console.log('[Proxy] Retrying connection in 5 seconds...');
-    setTimeout(connectRobot, 5000);
+    broadcast({
+        type: 'STATUS',
+        connected: false,
+        reason: 'Robot closed connection',
+        ...scheduleRobotRetry()
+    });
 };
 
 // ============ TCP STRING PROTOCOL FUNCTIONS ============
 
 const initTcpString = () => {
-    robotSocket = new net.Socket();
+    const socket = new net.Socket();
+    robotSocket = socket;
 
-    robotSocket.connect({ host: ROBOT_IP, port: ROBOT_PORT }, () => {
+    socket.connect({ host: ROBOT_IP, port: ROBOT_PORT }, () => {
         console.log('[Proxy] ✓ TCP String connection established');
         isRobotConnected = true;
+        notifyRobotConnected();
 
         // Send init command
-        const initCommand = `[getRobotRunStatus_IFace(); id = 999]`;
+        const initCommand = `[getRobotRunStatus_IFace(); id = ${INIT_COMMAND_ID}]`;
         console.log('[Proxy] → Sending init command:', initCommand);
         robotSocket.write(initCommand);
     });
 
-    robotSocket.on('data', handleTcpStringData);
-    robotSocket.on('error', handleTcpStringError);
-    robotSocket.on('close', handleTcpStringClose);
+    socket.on('data', handleTcpStringData);
+    socket.on('error', (err) => {
+        if (socket === robotSocket) handleTcpStringError(err);
+    });
+    socket.on('close', () => {
+        if (socket === robotSocket) handleTcpStringClose();
+    });
 };
 
 const handleTcpStringData = (data) => {
@@ -193,7 +227,7 @@ const handleTcpStringData = (data) => {
     if (robotEncoding === 'utf8') {
         chunk = data.toString('utf8');
 
-        if (/[\uFFFD]/.test(chunk) || chunk.includes('')) {
+        if (configuredEncoding === 'auto' && (/[\uFFFD]/.test(chunk) || chunk.includes(''))) {
             const utf16chunk = data.toString('utf16le');
             if (utf16chunk.includes('[') && utf16chunk.includes(';')) {
                 robotEncoding = 'utf16le';
@@ -253,7 +287,7 @@ const processResponseBuffer = () => {
 
 const handleRobotResponse = (response) => {
     const idMatch = response.match(/\[id\s*=\s*(\d+)/i);
-    const motionFinishMatch = response.match(/\[(FeedMovFinish|ActMovFinish):\s*(\d+)/i);
+    const motionFinishMatch = response.match(/\[(FeedMovFinish|ActMovFinish|RobotStop|SafeDoorIsOpen):\s*(\d+)/i);
 
     let responseId = null;
 
@@ -263,58 +297,156 @@ const handleRobotResponse = (response) => {
         responseId = parseInt(motionFinishMatch[2]);
     }
 
-    if (pendingCommand && responseId === pendingCommand.id) {
-        clearTimeout(pendingCommand.timeout);
-        pendingCommand.resolve(response);
-        pendingCommand = null;
+    // Answers to the proxy's own commands are not for the frontends
+    if (responseId !== null && responseId >= COMMAND_ID_LIMIT) {
+        console.log('[Proxy] ← Robot (proxy command):', response);
+        return;
     }
 
-    if (frontendClient && frontendClient.readyState === 1) {
-        frontendClient.send(JSON.stringify({
+    if (responseId === null) {
+        broadcast({
             type: 'ROBOT_RESPONSE',
             response: response
-        }));
+        });
+        return;
+    }
+
+    // Answers go to the client that sent the command, with its own id
+    const pending = pendingCommands.get(responseId);
+    if (!pending) {
+        console.log('[Proxy] ← Robot (no pending command):', response);
+        return;
+    }
+
+    // A move stays pending until its finish event, unless the robot refuses it
+    if (!pending.motion || motionFinishMatch || /;\s*FAIL/i.test(response)) {
+        clearTimeout(pending.timeout);
+        pendingCommands.delete(responseId);
+        pending.resolve(response);
     }
+
+    sendMessage(pending.ws, {
+        type: 'ROBOT_RESPONSE',
+        response: response.replace(/^(\s*\[(?:id\s*=|\w+:)\s*)\d+/, `$1${pending.clientCommandId}`)
+    });
 };
 
 const handleTcpStringError = (err) => {
     console.warn(`[Proxy] ✗ TCP String Error: ${err.message}`);
     isRobotConnected = false;
     robotSocket = null;
+    rejectPendingCommands('Robot disconnected');
 
-    if (frontendClient && frontendClient.readyState === 1) {
-        frontendClient.send(JSON.stringify({
-            type: 'STATUS',
-            connected: false,
-            error: err.message
-        }));
-    }
-
-    setTimeout(connectRobot, 5000);
+    broadcast({
+        type: 'STATUS',
+        connected: false,
+        error: err.message,
+        ...scheduleRobotRetry()
+    });
 };
 
 const handleTcpStringClose = () => {
     console.log('[Proxy] TCP String connection closed');
     isRobotConnected = false;
     robotSocket = null;
-    robotEncoding = 'utf8';
-
-    if (frontendClient && frontendClient.readyState === 1) {
-        frontendClient.send(JSON.stringify({
-            type: 'STATUS',
-            connected: false,
-            reason: 'Robot closed connection'
-        }));
-    }
+    robotEncoding = initialEncoding();
+    rejectPendingCommands('Robot disconnected');
+
+    broadcast({
+        type: 'STATUS',
+        connected: false,
+        reason: 'Robot closed connection',
+        ...scheduleRobotRetry()
+    });
+};
+
+// ============ VISION SERVER MODE ============
+// The robot connects as TCP client, sends a 0x20 heartbeat every 18s when idle
+// and reconnects by itself when a send fails
+
+const startVisionServer = () => {
+    PROTOCOL = 'TCP_STRING';
+    ROBOT_PORT = VISION_SERVER_PORT;
+    currentRobotPort = VISION_SERVER_PORT;
+
+    const server = net.createServer((socket) => {
+        console.log(`[Proxy] ✓ Robot connected from ${socket.remoteAddress}:${socket.remotePort}`);
+
+        // The robot only keeps one link, a new connection replaces the old one
+        // (its close handler is skipped, so its commands and jog end here)
+        if (robotSocket) {
+            robotSocket.destroy();
+            rejectPendingCommands('Robot reconnected');
+            disarmJogWatchdog();
+        }
+
+        robotSocket = socket;
+        isRobotConnected = true;
+        responseBuffer = '';
+        robotEncoding = initialEncoding();
+        ROBOT_IP = socket.remoteAddress?.replace(/^::ffff:/, '') || ROBOT_IP;
+        notifyRobotConnected();
+
+        // No data and no heartbeat for too long - the robot is gone
+        socket.setTimeout(VISION_IDLE_TIMEOUT);
+        socket.on('timeout', () => {
+            console.warn(`[Proxy] No data from robot for ${VISION_IDLE_TIMEOUT / 1000}s, closing connection`);
+            socket.destroy();
+        });
+
+        socket.on('data', handleTcpStringData);
+        socket.on('error', (err) => {
+            console.warn(`[Proxy] ✗ Robot socket error: ${err.message}`);
+        });
+        socket.on('close', () => {
+            if (socket === robotSocket) handleVisionServerClose();
+        });
+    });
+
+    server.on('error', (err) => {
+        console.error(`[Proxy] ✗ Vision server error: ${err.message}`);
+    });
+
+    server.listen(VISION_SERVER_PORT, () => {
+        console.log(`[Proxy] Vision server listening on port ${VISION_SERVER_PORT}, waiting for robot...`);
+    });
+};
+
+const handleVisionServerClose = () => {
+    console.log('[Proxy] Robot disconnected from vision server');
+    isRobotConnected = false;
+    robotSocket = null;
+    robotEncoding = initialEncoding();
+
+    rejectPendingCommands('Robot disconnected');
 
-    setTimeout(connectRobot, 5000);
+    broadcast({
+        type: 'STATUS',
+        connected: false,
+        reason: 'Robot closed connection',
+        mode: LINK_MODE
+    });
 };
 
 // ============ COMMON FUNCTIONS ============
 
+// Tell the frontend the robot link is up (also after proxy-side retries)
+const notifyRobotConnected = () => {
+    robotRetryAttempt = 0;
+    broadcast({
+        type: 'STATUS',
+        connected: true,
+        robotIp: ROBOT_IP,
+        robotPort: ROBOT_PORT,
+        protocol: PROTOCOL,
+        mode: LINK_MODE
+    });
+};
+
 const connectRobot = () => {
     if (robotConnectAttempted && isRobotConnected) return;
     robotConnectAttempted = true;
+    cancelRobotRetry();
 
     console.log(`[Proxy] Attempting ${PROTOCOL} connection to Robot at ${ROBOT_IP}:${ROBOT_PORT}...`);
 
@@ -329,7 +461,29 @@ const connectRobot = () => {
     }
 };
 
-const sendToRobotTcpString = (command) => {
+// Moves answered only by a finish event ([FeedMovFinish: id], [ActMovFinish: id], [RobotStop: id], [SafeDoorIsOpen: id])
+const FINISH_EVENT_COMMANDS = /^\s*\[?\s*(MovePointV3|MoveToSelectPoint_IFace|MoveToSelectPointb_IFace|MoveWithSearch_IFace)\s*\(/;
+
+const rejectPendingCommands = (reason) => {
+    for (const [id, pending] of pendingCommands) {
+        clearTimeout(pending.timeout);
+        pendingCommands.delete(id);
+        pending.reject(new Error(reason));
+    }
+};
+
+// Free robot id for a frontend command (0 .. COMMAND_ID_LIMIT - 1), null if all are pending
+const nextRobotCommandId = () => {
+    for (let i = 0; i < COMMAND_ID_LIMIT; i++) {
+        lastRobotCommandId = (lastRobotCommandId + 1) % COMMAND_ID_LIMIT;
+        if (!pendingCommands.has(lastRobotCommandId)) return lastRobotCommandId;
+    }
+    return null;
+};
+
+// Commands are matched to their answer by id, so stops and queries may be sent while a move runs
+// Motion commands answer only when the move ends, so the client may pass a longer timeout
+const sendToRobotTcpString = (ws, command, timeoutMs = COMMAND_TIMEOUT) => {
     return new Promise((resolve, reject) => {
         if (!robotSocket || !isRobotConnected) {
             reject(new Error('Not connected to robot'));
@@ -342,84 +496,316 @@ const sendToRobotTcpString = (command) => {
             return;
         }
 
-        const commandId = parseInt(idMatch[1]);
+        const clientCommandId = parseInt(idMatch[1]);
+        if (clientCommandId >= COMMAND_ID_LIMIT) {
+            reject(new Error(`Command id ${clientCommandId} is reserved for the proxy`));
+            return;
+        }
 
-        if (pendingCommand) {
-            clearTimeout(pendingCommand.timeout);
-            pendingCommand = null;
+        const commandId = nextRobotCommandId();
+        if (commandId === null) {
+            reject(new Error('Too many pending commands'));
+            return;
         }
 
-        console.log('[Proxy] → Robot:', command);
-        const written = robotSocket.write(command);
+        const robotCommand = command.replace(/id\s*=\s*\d+/, `id = ${commandId}`);
+        console.log('[Proxy] → Robot:', robotCommand);
+        const written = robotSocket.write(robotCommand);
         console.log('[Proxy] Write result:', written);
 
-        const timeout = setTimeout(() => {
-            if (pendingCommand) {
-                console.log('[Proxy] Command timeout - no response from robot');
-                pendingCommand.reject(new Error('Command timeout'));
-                pendingCommand = null;
-            }
-        }, COMMAND_TIMEOUT);
-
-        pendingCommand = {
-            id: commandId,
+        const pending = {
+            ws,
+            clientCommandId,
+            command,
+            motion: FINISH_EVENT_COMMANDS.test(command),
             resolve,
             reject,
-            timeout
+            timeout: setTimeout(() => {
+                if (pendingCommands.get(commandId) !== pending) return;
+                console.log(`[Proxy] Command timeout - no response from robot: ${command}`);
+                pendingCommands.delete(commandId);
+                reject(new Error('Command timeout'));
+            }, timeoutMs)
         };
+        pendingCommands.set(commandId, pending);
     });
 };
 
+// ============ REGISTER REQUESTS ============
+// Every reply echoes requestId, so the frontend can match it to the request
+
+const REGISTER_HANDLERS = {
+    READ_REGISTER: async ({ addr, count }) => {
+        console.log(`[Proxy] Reading Holding Registers ${addr}-${addr + count - 1}`);
+        const response = await modbusClient.readHoldingRegisters(addr, count);
+        return { type: 'REGISTER_DATA', addr, count, values: response.response.body.values };
+    },
+    WRITE_REGISTER: async ({ addr, val }) => {
+        await modbusClient.writeSingleRegister(addr, val);
+        console.log(`[Proxy] Write Reg ${addr} -> ${val}`);
+        return { type: 'REGISTER_WRITTEN', addr, val };
+    },
+    READ_INPUT_REGISTER: async ({ addr, count }) => {
+        console.log(`[Proxy] Reading Input Registers ${addr}-${addr + count - 1}`);
+        const response = await modbusClient.readInputRegisters(addr, count);
+        return { type: 'INPUT_DATA', addr, count, values: response.response.body.values };
+    },
+    READ_COIL: async ({ addr, count }) => {
+        console.log(`[Proxy] Reading Coils ${addr}-${addr + count - 1}`);
+        const response = await modbusClient.readCoils(addr, count);
+        // Coil status comes as a byte-padded bit list
+        const values = response.response.body.valuesAsArray.slice(0, count).map(Number);
+        return { type: 'COIL_DATA', addr, count, values };
+    }
+};
+
+const handleRegisterRequest = async (ws, message) => {
+    const { type, requestId, addr } = message;
+    const fail = (reason) => sendMessage(ws, { type: 'ERROR', requestId, addr, message: reason });
+
+    if (PROTOCOL !== 'MODBUS_TCP') {
+        fail(`${type} not supported for ${PROTOCOL}`);
+        return;
+    }
+    if (!modbusClient) {
+        console.error(`[Proxy] ${type} failed: Modbus client not initialized`);
+        fail('Modbus client not ready');
+        return;
+    }
+
+    try {
+        const reply = await REGISTER_HANDLERS[type](message);
+        sendMessage(ws, { ...reply, requestId });
+    } catch (error) {
+        console.error(`[Proxy] ${type} ${addr} failed:`, error.message);
+        fail(error.message);
+    }
+};
+
+// ============ CONTROL LEASE ============
+// Exactly one client may send robot commands, register writes and CONNECT targets.
+// The first client gets the lease; others request it and the holder hands it over
+// or releases it (then it goes to the oldest request).
+
+const holdsLease = (ws) => clients.get(ws)?.id === leaseHolder;
+
+// Messages that act on the robot (CONNECT is answered with the current link instead)
+const CONTROL_MESSAGES = new Set(['ROBOT_COMMAND', 'WRITE_REGISTER', 'JOG_KEEPALIVE']);
+
+// Tell every client the session and lease state
+const broadcastLease = () => {
+    const sessions = [...clients.values()];
+    for (const [ws, client] of clients) {
+        sendMessage(ws, {
+            type: 'LEASE',
+            clientId: client.id,
+            holder: leaseHolder,
+            clients: sessions,
+            requests: leaseRequests
+        });
+    }
+};
+
+const grantLease = (id, reason) => {
+    if (id !== leaseHolder) {
+        stopJog('control lease changed');
+    }
+    leaseHolder = id;
+    leaseRequests = leaseRequests.filter((request) => request !== id);
+    console.log(`[Proxy] Control lease → ${id ?? 'nobody'} (${reason})`);
+    broadcastLease();
+};
+
+// Pass the lease on to the oldest request, or free it
+const passLease = (reason) => {
+    const next = leaseRequests.find((id) => [...clients.values()].some((client) => client.id === id));
+    grantLease(next ?? null, reason);
+};
+
+const handleLeaseMessage = (ws, message) => {
+    const { id } = clients.get(ws);
+
+    if (message.type === 'LEASE_REQUEST') {
+        if (leaseHolder === null) {
+            grantLease(id, 'lease was free');
+        } else if (leaseHolder !== id && !leaseRequests.includes(id)) {
+            leaseRequests.push(id);
+            console.log(`[Proxy] ${id} requests the control lease from ${leaseHolder}`);
+            broadcastLease();
+        }
+        return;
+    }
+
+    if (leaseHolder !== id) {
+        sendMessage(ws, { type: 'ERROR', message: `${message.type} refused: ${id} does not hold the control lease` });
+        return;
+    }
+
+    if (message.type === 'LEASE_RELEASE') {
+        passLease(`released by ${id}`);
+    } else if ([...clients.values()].some((client) => client.id === message.to)) {
+        grantLease(message.to, `handed over by ${id}`);
+    } else {
+        sendMessage(ws, { type: 'ERROR', message: `LEASE_HANDOVER refused: unknown client ${message.to}` });
+    }
+};
+
+// Refuse a control message from a client without the lease
+const refuseControl = (ws, message) => {
+    const reason = `Control lease held by ${leaseHolder ?? 'nobody'}, request it first`;
+    if (message.type === 'ROBOT_COMMAND') {
+        sendMessage(ws, { type: 'COMMAND_ERROR', command: message.command, error: reason, requestId: message.requestId });
+    } else {
+        sendMessage(ws, { type: 'ERROR', message: reason, requestId: message.requestId, addr: message.addr });
+    }
+};
+
+// ============ JOG WATCHDOG ============
+// JogMotion_IFace moves until JogMotionStop_IFace. While a jog runs the lease holder sends
+// JOG_KEEPALIVE; when keep-alives stop (link lost, tab frozen) or the holder goes away,
+// the proxy sends the stop itself.
+
+const JOG_START_COMMAND = /^\s*\[?\s*JogMotion_IFace\s*\(/;
+const JOG_STOP_COMMANDS = /^\s*\[?\s*(JogMotionStop_IFace|stopRun_IFace|StopDestPosMotion_IFace)\s*\(/;
+
+let jogWatchdog = null;
+
+const armJogWatchdog = () => {
+    clearTimeout(jogWatchdog);
+    jogWatchdog = setTimeout(() => stopJog(`no keep-alive for ${JOG_WATCHDOG_TIMEOUT} ms`), JOG_WATCHDOG_TIMEOUT);
+};
+
+const disarmJogWatchdog = () => {
+    clearTimeout(jogWatchdog);
+    jogWatchdog = null;
+};
+
+// Stop a running jog on behalf of the frontend
+const stopJog = (reason) => {
+    if (!jogWatchdog) return;
+    disarmJogWatchdog();
+    console.warn(`[Proxy] Jog watchdog: ${reason}, sending JogMotionStop_IFace`);
+    if (robotSocket && isRobotConnected && PROTOCOL === 'TCP_STRING') {
+        robotSocket.write(`[JogMotionStop_IFace(); id = ${JOG_WATCHDOG_STOP_ID}]`);
+    }
+};
+
 // Handle Frontend Connections
 wss.on('connection', (ws, req) => {
     const clientIp = req.socket.remoteAddress || 'unknown';
-    console.log(`[Proxy] ✓ Frontend client connected from ${clientIp}`);
+    const client = { id: `client-${nextClientId++}`, address: clientIp, connectedAt: Date.now() };
+    clients.set(ws, client);
+    console.log(`[Proxy] ✓ Frontend ${client.id} connected from ${clientIp} (${clients.size} connected)`);
 
-    frontendClient = ws;
-
-    ws.send(JSON.stringify({
+    sendMessage(ws, {
         type: 'STATUS',
         connected: isRobotConnected,
         robotIp: ROBOT_IP,
         robotPort: ROBOT_PORT,
-        protocol: PROTOCOL
-    }));
+        protocol: PROTOCOL,
+        mode: LINK_MODE
+    });
+
+    if (leaseHolder === null) {
+        grantLease(client.id, 'first client');
+    } else {
+        broadcastLease();
+    }
 
     ws.on('close', () => {
-        console.log('[Proxy] Frontend client disconnected');
-        frontendClient = null;
+        clients.delete(ws);
+        leaseRequests = leaseRequests.filter((id) => id !== client.id);
+        console.log(`[Proxy] Frontend ${client.id} disconnected (${clients.size} connected)`);
+        if (leaseHolder === client.id) {
+            stopJog(`${client.id} disconnected`);
+            passLease(`${client.id} disconnected`);
+        } else {
+            broadcastLease();
+        }
     });
 
     ws.on('error', (err) => {
-        console.error('[Proxy] Frontend WebSocket error:', err.message);
-        frontendClient = null;
+        console.error(`[Proxy] Frontend ${client.id} WebSocket error:`, err.message);
     });
 
     ws.on('message', async (msg) => {
+        let message;
+        try {
+            message = validateClientMessage(JSON.parse(msg.toString()));
+        } catch (e) {
+            console.error('[Proxy] Rejected message:', e.message);
+            // Answer the request the message claims to be, if it carries an id
+            let requestId;
+            try {
+                requestId = JSON.parse(msg.toString())?.requestId;
+            } catch {
+                requestId = undefined;
+            }
+            sendMessage(ws, {
+                type: 'ERROR',
+                message: `Invalid message: ${e.message}`,
+                requestId: Number.isInteger(requestId) && requestId > 0 ? requestId : undefined
+            });
+            return;
+        }
+
         try {
-            const message = JSON.parse(msg.toString());
-            console.log(`[Proxy] ← Frontend: ${message.type || message.cmd || 'UNKNOWN'}`,
-                message.params ? JSON.stringify(message.params) : '');
+            console.log(`[Proxy] ← ${client.id}: ${message.type}`);
 
-            if (message.cmd === 'CONNECT' || message.type === 'CONNECT') {
+            if (message.type.startsWith('LEASE_')) {
+                handleLeaseMessage(ws, message);
+                return;
+            }
+
+            // Observers may only read
+            if (CONTROL_MESSAGES.has(message.type) && !holdsLease(ws)) {
+                refuseControl(ws, message);
+                return;
+            }
+
+            if (message.type === 'CONNECT') {
                 console.log(`[Proxy] Handshake request received for robot at ${message.target?.ip}:${message.target?.port}`);
 
+                // The robot dials in by itself (or another client controls the link), report the current link only
+                if (LINK_MODE === 'VISION_SERVER' || !holdsLease(ws)) {
+                    sendMessage(ws, {
+                        type: 'STATUS',
+                        connected: isRobotConnected,
+                        robotIp: ROBOT_IP,
+                        robotPort: ROBOT_PORT,
+                        protocol: PROTOCOL,
+                        mode: LINK_MODE
+                    });
+                    return;
+                }
+
                 const targetIp = message.target?.ip || ROBOT_IP;
                 const targetPort = message.target?.port || ROBOT_PORT;
                 
-                // Update protocol based on target port
-                const connectionProtocol = targetPort === 5000 ? 'TCP_STRING' : 'MODBUS_TCP';
+                // Protocol from the target (connection profile), else guessed from the port
+                const connectionProtocol = message.target?.protocol ||
+                    (targetPort === 5000 ? 'TCP_STRING' : 'MODBUS_TCP');
+
+                const targetEncoding = message.target?.encoding || 'auto';
+                if (targetEncoding !== configuredEncoding) {
+                    console.log(`[Proxy] TCP string encoding: ${targetEncoding}`);
+                    configuredEncoding = targetEncoding;
+                    robotEncoding = initialEncoding();
+                }
                 
-                ws.send(JSON.stringify({
+                sendMessage(ws, {
                     type: 'STATUS',
                     connected: isRobotConnected,
                     robotIp: targetIp,
                     robotPort: targetPort,
                     protocol: connectionProtocol
-                }));
+                });
 
-                // Reconnect if port changed or not connected
-                if (!isRobotConnected || currentRobotPort !== targetPort) {
+                // Reconnect if the target changed, or not connected and no attempt in flight
+                const targetChanged = currentRobotPort !== targetPort ||
+                    ROBOT_IP !== targetIp || PROTOCOL !== connectionProtocol;
+                const attemptInFlight = Boolean(robotSocket?.connecting);
+                if (targetChanged || (!isRobotConnected && !attemptInFlight)) {
                     console.log(`[Proxy] Switching protocol: ${connectionProtocol} (port ${targetPort})`);
                     PROTOCOL = connectionProtocol;
                     currentRobotPort = targetPort;
@@ -434,128 +820,82 @@ wss.on('connection', (ws, req) => {
                     }
                     isRobotConnected = false;
                     
-                    // Reconnect with new settings
+                    // Reconnect with new settings, the backoff starts over
+                    robotRetryAttempt = 0;
                     ROBOT_IP = targetIp;
                     ROBOT_PORT = targetPort;
                     connectRobot();
                 }
             }
 
+            if (message.type === 'JOG_KEEPALIVE') {
+                if (jogWatchdog) armJogWatchdog();
+                return;
+            }
+
             if (message.type === 'ROBOT_COMMAND') {
                 if (PROTOCOL === 'TCP_STRING') {
+                    const jogStart = JOG_START_COMMAND.test(message.command);
+                    if (jogStart) {
+                        armJogWatchdog();
+                    } else if (JOG_STOP_COMMANDS.test(message.command)) {
+                        disarmJogWatchdog();
+                    }
+
                     try {
-                        const response = await sendToRobotTcpString(message.command);
+                        const response = await sendToRobotTcpString(ws, message.command, message.timeout);
                         console.log('[Proxy] Command completed:', response);
                     } catch (error) {
                         console.error('[Proxy] Command failed:', error.message);
-                        ws.send(JSON.stringify({
+                        // A jog that did not start has nothing to stop
+                        if (jogStart && jogWatchdog && error.message !== 'Command timeout') {
+                            disarmJogWatchdog();
+                        }
+                        sendMessage(ws, {
                             type: 'COMMAND_ERROR',
-                            error: error.message
-                        }));
+                            command: message.command,
+                            error: error.message,
+                            requestId: message.requestId
+                        });
                     }
                 } else {
-                    ws.send(JSON.stringify({
+                    sendMessage(ws, {
                         type: 'ERROR',
-                        message: 'ROBOT_COMMAND not supported for Modbus TCP. Use WRITE_REGISTER instead.'
-                    }));
+                        message: 'ROBOT_COMMAND not supported for Modbus TCP. Use WRITE_REGISTER instead.',
+                        requestId: message.requestId
+                    });
                 }
             }
 
-            if (message.type === 'WRITE_REGISTER' && PROTOCOL === 'MODBUS_TCP') {
-                try {
-                    await modbusClient.writeSingleRegister(message.addr, message.val);
-                    console.log(`[Proxy] Write Reg ${message.addr} -> ${message.val}`);
-                } catch (error) {
-                    console.error('[Proxy] Write failed:', error.message);
-                    ws.send(JSON.stringify({
-                        type: 'ERROR',
-                        message: error.message
-                    }));
-                }
-            }
-
-            if (message.type === 'READ_REGISTER' && PROTOCOL === 'MODBUS_TCP') {
-                if (!modbusClient) {
-                    console.error('[Proxy] Read failed: Modbus client not initialized');
-                    ws.send(JSON.stringify({
-                        type: 'ERROR',
-                        message: 'Modbus client not ready'
-                    }));
-                    return;
-                }
-                try {
-                    console.log(`[Proxy] Reading Holding Registers ${message.addr}-${message.addr + message.count - 1}`);
-                    const response = await modbusClient.readHoldingRegisters(message.addr, message.count);
-                    console.log(`[Proxy] Read ${response.response.body.values.length} registers`);
-                    ws.send(JSON.stringify({
-                        type: 'REGISTER_DATA',
-                        values: response.response.body.values
-                    }));
-                } catch (error) {
-                    console.error('[Proxy] Read failed:', error.message);
-                    ws.send(JSON.stringify({
-                        type: 'ERROR',
-                        message: error.message
-                    }));
-                }
-            }
-
-            if (message.type === 'READ_INPUT_REGISTER' && PROTOCOL === 'MODBUS_TCP') {
-                if (!modbusClient) {
-                    ws.send(JSON.stringify({ type: 'ERROR', message: 'Modbus client not ready' }));
-                    return;
-                }
-                try {
-                    console.log(`[Proxy] Reading Input Registers ${message.addr}-${message.addr + message.count - 1}`);
-                    const response = await modbusClient.readInputRegisters(message.addr, message.count);
-                    ws.send(JSON.stringify({
-                        type: 'INPUT_DATA',
-                        values: response.response.body.values
-                    }));
-                } catch (error) {
-                    console.error('[Proxy] Input Read failed:', error.message);
-                    ws.send(JSON.stringify({ type: 'ERROR', message: error.message }));
-                }
-            }
-
-            if (message.type === 'READ_COIL' && PROTOCOL === 'MODBUS_TCP') {
-                if (!modbusClient) {
-                    ws.send(JSON.stringify({ type: 'ERROR', message: 'Modbus client not ready' }));
-                    return;
-                }
-                try {
-                    console.log(`[Proxy] Reading Coils ${message.addr}-${message.addr + message.count - 1}`);
-                    const response = await modbusClient.readCoils(message.addr, message.count);
-                    ws.send(JSON.stringify({
-                        type: 'COIL_DATA',
-                        values: response.response.body.values
-                    }));
-                } catch (error) {
-                    console.error('[Proxy] Coil Read failed:', error.message);
-                    ws.send(JSON.stringify({ type: 'ERROR', message: error.message }));
-                }
+            if (message.type in REGISTER_HANDLERS) {
+                await handleRegisterRequest(ws, message);
             }
         } catch (e) {
-            console.error('[Proxy] Message parse error:', e.message);
-            ws.send(JSON.stringify({
+            console.error('[Proxy] Message handling error:', e.message);
+            sendMessage(ws, {
                 type: 'ERROR',
-                message: `Parse error: ${e.message}`
-            }));
+                message: `Internal error: ${e.message}`,
+                requestId: message.requestId
+            });
         }
     });
 });
 
 // Heartbeat
 setInterval(() => {
-    if (isRobotConnected && frontendClient) {
-        frontendClient.send(JSON.stringify({
+    if (isRobotConnected) {
+        broadcast({
             type: 'HEARTBEAT',
             connected: true,
             timestamp: Date.now()
-        }));
+        });
     }
 }, HEARTBEAT_INTERVAL);
 
 // Start initial connection
-console.log('[Proxy] Initiating robot connection...');
-connectRobot();
+if (LINK_MODE === 'VISION_SERVER') {
+    startVisionServer();
+} else {
+    console.log('[Proxy] Initiating robot connection...');
+    connectRobot();
+}
@@ -0,0 +1,1049 @@
+/**
+ * Virtual ER-series Controller
+ * Simulated robot for development without hardware
+ *
+ * - TCP String protocol (RCS2 V1.5.3) on VITE_ROBOT_PORT_TCP (default 5000):
+ *   [Cmd(args); id = X] -> [id = X; Ok; data] / [id = X; FAIL],
+ *   moves answer [FeedMovFinish: X] / [ActMovFinish: X] / [RobotStop: X]
+ * - Modbus TCP on VITE_ROBOT_PORT_MODBUS (default 1502) with the layout
+ *   from docs/MODBUS_REGISTER_MAP.md (address 0 = register 40001)
+ * - Joint angles are the single source of truth, world position is computed
+ *   from them (forward kinematics), world targets are solved numerically
+ *
+ * With VITE_ROBOT_LINK_MODE=server the controller dials the proxy's vision
+ * server port instead of listening, like a real robot configured with a camera IP.
+ *
+ * Run: npm run virtual
+ */
+
+import net from 'net';
+import jsmodbus from 'jsmodbus';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../.env') });
+
+const TCP_PORT = Number(process.env.VITE_ROBOT_PORT_TCP) || 5000;
+const MODBUS_PORT = Number(process.env.VITE_ROBOT_PORT_MODBUS) || 1502;
+const DIAL_VISION_SERVER = (process.env.VITE_ROBOT_LINK_MODE || 'client').toLowerCase() === 'server';
+const VISION_SERVER_HOST = process.env.VITE_VISION_SERVER_HOST || '127.0.0.1';
+const VISION_SERVER_PORT = Number(process.env.VITE_VISION_SERVER_PORT) || 5000;
+
+// Simulation constants
+const TICK_INTERVAL = 50; // ms
+const HEARTBEAT_INTERVAL = 18000; // Robot sends 0x20 every 18s when idle
+const JOINT_SPEED = 120; // deg/s at 100%
+const LINEAR_SPEED = 1000; // mm/s at 100%
+const JOG_JOINT_SPEED = 10; // deg/s at 100%
+const JOG_LINEAR_SPEED = 50; // mm/s at 100%
+const MODBUS_REGISTER_COUNT = 5100; // Covers the write probe allow-list (up to 5002)
+
+console.log('=== VIRTUAL ER CONTROLLER STARTING ===');
+if (DIAL_VISION_SERVER) {
+    console.log(`  Vision server: ${VISION_SERVER_HOST}:${VISION_SERVER_PORT}`);
+} else {
+    console.log(`  TCP String port: ${TCP_PORT}`);
+}
+console.log(`  Modbus TCP port: ${MODBUS_PORT}`);
+console.log('─────────────────────────────────');
+
+// ============ KINEMATICS ============
+// Generic 6-axis ER-series geometry (standard DH, mm / deg)
+
+const DH = [
+    { a: 150, alpha: -90, d: 430, offset: 0 },
+    { a: 570, alpha: 0, d: 0, offset: -90 },
+    { a: 150, alpha: -90, d: 0, offset: 0 },
+    { a: 0, alpha: 90, d: 640, offset: 0 },
+    { a: 0, alpha: -90, d: 0, offset: 0 },
+    { a: 0, alpha: 0, d: 100, offset: 0 }
+];
+
+const DEG = Math.PI / 180;
+
+const matMul = (m, n) => {
+    const r = [];
+    for (let i = 0; i < 4; i++) {
+        r.push([]);
+        for (let j = 0; j < 4; j++) {
+            r[i].push(m[i][0] * n[0][j] + m[i][1] * n[1][j] + m[i][2] * n[2][j] + m[i][3] * n[3][j]);
+        }
+    }
+    return r;
+};
+
+const dhMatrix = ({ a, alpha, d, offset }, joint) => {
+    const th = (joint + offset) * DEG;
+    const al = alpha * DEG;
+    const [ct, st, ca, sa] = [Math.cos(th), Math.sin(th), Math.cos(al), Math.sin(al)];
+    return [
+        [ct, -st * ca, st * sa, a * ct],
+        [st, ct * ca, -ct * sa, a * st],
+        [0, sa, ca, d],
+        [0, 0, 0, 1]
+    ];
+};
+
+// Pose {x, y, z, a, b, c} <-> homogeneous matrix, R = Rz(c) * Ry(b) * Rx(a)
+const poseToMatrix = ({ x, y, z, a, b, c }) => {
+    const [ca, sa] = [Math.cos(a * DEG), Math.sin(a * DEG)];
+    const [cb, sb] = [Math.cos(b * DEG), Math.sin(b * DEG)];
+    const [cc, sc] = [Math.cos(c * DEG), Math.sin(c * DEG)];
+    return [
+        [cc * cb, cc * sb * sa - sc * ca, cc * sb * ca + sc * sa, x],
+        [sc * cb, sc * sb * sa + cc * ca, sc * sb * ca - cc * sa, y],
+        [-sb, cb * sa, cb * ca, z],
+        [0, 0, 0, 1]
+    ];
+};
+
+const matrixToPose = (m) => ({
+    x: m[0][3],
+    y: m[1][3],
+    z: m[2][3],
+    a: Math.atan2(m[2][1], m[2][2]) / DEG,
+    b: Math.atan2(-m[2][0], Math.hypot(m[0][0], m[1][0])) / DEG,
+    c: Math.atan2(m[1][0], m[0][0]) / DEG
+});
+
+const forwardMatrix = (joints, toolPose) => {
+    let m = poseToMatrix({ x: 0, y: 0, z: 0, a: 0, b: 0, c: 0 });
+    DH.forEach((link, i) => {
+        m = matMul(m, dhMatrix(link, joints[i]));
+    });
+    return matMul(m, poseToMatrix(toolPose));
+};
+
+const forwardKinematics = (joints, toolPose) => matrixToPose(forwardMatrix(joints, toolPose));
+
+// Position (mm) and rotation (rad, axis-angle) error between two matrices
+const poseError = (target, current) => {
+    const e = [target[0][3] - current[0][3], target[1][3] - current[1][3], target[2][3] - current[2][3]];
+    // R_err = R_target * R_current^T
+    const r = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+    for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+            r[i][j] = target[i][0] * current[j][0] + target[i][1] * current[j][1] + target[i][2] * current[j][2];
+        }
+    }
+    const angle = Math.acos(Math.min(1, Math.max(-1, (r[0][0] + r[1][1] + r[2][2] - 1) / 2)));
+    const k = angle < 1e-9 ? 0.5 : angle / (2 * Math.sin(angle));
+    e.push(k * (r[2][1] - r[1][2]), k * (r[0][2] - r[2][0]), k * (r[1][0] - r[0][1]));
+    return e;
+};
+
+// Solve (A) x = b for a small dense system (Gaussian elimination)
+const solve = (a, b) => {
+    const n = b.length;
+    const m = a.map((row, i) => [...row, b[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        }
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+        if (Math.abs(m[col][col]) < 1e-12) return null;
+        for (let row = col + 1; row < n; row++) {
+            const f = m[row][col] / m[col][col];
+            for (let k = col; k <= n; k++) m[row][k] -= f * m[col][k];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = m[row][n];
+        for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+        x[row] = sum / m[row][row];
+    }
+    return x;
+};
+
+/**
+ * Numerical inverse kinematics (damped least squares)
+ * Starts from the seed joints, so the solution stays on the current branch
+ */
+const inverseKinematics = (pose, seed, toolPose) => {
+    const target = poseToMatrix(pose);
+    const joints = [...seed];
+    const ROT_WEIGHT = 500; // mm per rad, balances position and orientation error
+    const STEP = 1e-3; // deg
+
+    for (let iter = 0; iter < 200; iter++) {
+        const current = forwardMatrix(joints, toolPose);
+        const err = poseError(target, current).map((v, i) => (i < 3 ? v : v * ROT_WEIGHT));
+        if (Math.hypot(err[0], err[1], err[2]) < 0.001 && Math.hypot(err[3], err[4], err[5]) < 0.001) {
+            return joints;
+        }
+
+        // Numeric Jacobian (6x6)
+        const jac = [[], [], [], [], [], []];
+        for (let j = 0; j < 6; j++) {
+            const probe = [...joints];
+            probe[j] += STEP;
+            const d = poseError(forwardMatrix(probe, toolPose), current);
+            for (let i = 0; i < 6; i++) jac[i][j] = (i < 3 ? d[i] : d[i] * ROT_WEIGHT) / STEP;
+        }
+
+        const lambda = 0.5;
+        const jtj = [];
+        const jte = [];
+        for (let r = 0; r < 6; r++) {
+            jtj.push([]);
+            let sum = 0;
+            for (let c = 0; c < 6; c++) {
+                let s = 0;
+                for (let k = 0; k < 6; k++) s += jac[k][r] * jac[k][c];
+                jtj[r].push(s + (r === c ? lambda * lambda : 0));
+            }
+            for (let k = 0; k < 6; k++) sum += jac[k][r] * err[k];
+            jte.push(sum);
+        }
+        const delta = solve(jtj, jte);
+        if (!delta) return null;
+        for (let j = 0; j < 6; j++) {
+            joints[j] += Math.max(-10, Math.min(10, delta[j]));
+        }
+    }
+    return null;
+};
+
+// ============ ROBOT MODEL ============
+
+const RobotMode = { MANUAL: 0, AUTO: 1, REMOTE: 2 };
+const RunStatus = { INIT: 0, RUNNING: 1, PAUSED: 2, STOPPED: 3, ERROR: 4 };
+const CoordType = { JOINT: 0, WORLD: 1, TOOL: 2, USER: 3 };
+const VarType = {
+    INT: 1, REAL: 2, APOS: 3, CPOS: 4, STRING: 5, ARRAY: 6,
+    CPOS_WITH_CFG: 7, TOOL: 8, USERCOORD: 9, TOOL_WITH_PAYLOAD: 10
+};
+
+// IO type codes (SetIOValue / setMultiIOValue) -> bank
+const IO_BANKS = { 0: 'din', 1: 'dout', 2: 'aout', 11: 'simDin', 12: 'simDout', 13: 'simAin', 14: 'simAout' };
+
+const robot = {
+    joints: [0, 0, 0, 0, 90, 0],
+    mode: RobotMode.MANUAL,
+    runMode: 0,
+    runStatus: RunStatus.STOPPED,
+    servo: false,
+    errorId: 0,
+    speed: 50, // global speed %
+    coordType: CoordType.JOINT,
+    tool: 'TOOL0',
+    userCoord: 'USERCOOR0',
+    payload: '',
+    project: 'estun.test',
+    program: 'main',
+    programLoaded: true,
+    pc: 0,
+    softLimits: [[-170, 170], [-110, 150], [-80, 230], [-190, 190], [-125, 125], [-360, 360]],
+    io: {
+        din: new Array(64).fill(0),
+        dout: new Array(64).fill(0),
+        ain: new Array(32).fill(0),
+        aout: new Array(32).fill(0),
+        simDin: new Array(64).fill(0),
+        simDout: new Array(64).fill(0),
+        simAin: new Array(32).fill(0),
+        simAout: new Array(32).fill(0)
+    },
+    // Variables by "type:name" (scope is accepted but not separated)
+    vars: new Map([
+        [`${VarType.TOOL}:TOOL0`, [0, 0, 0, 0, 0, 0]],
+        [`${VarType.USERCOORD}:USERCOOR0`, [0, 0, 0, 0, 0, 0]]
+    ]),
+    motion: null, // Active move
+    motionQueue: [], // Moves waiting behind the active one
+    jog: null // { axis, dir }
+};
+
+const toolPose = () => {
+    const [x = 0, y = 0, z = 0, a = 0, b = 0, c = 0] = robot.vars.get(`${VarType.TOOL}:${robot.tool}`) || [];
+    return { x, y, z, a, b, c };
+};
+
+const worldPose = () => forwardKinematics(robot.joints, toolPose());
+
+const withinLimits = (joints) =>
+    joints.every((j, i) => j >= robot.softLimits[i][0] - 1e-6 && j <= robot.softLimits[i][1] + 1e-6);
+
+const isMoving = () => robot.motion !== null || robot.jog !== null;
+
+// Configuration flags reported with world positions (mode: J5 sign)
+/**
+ * cfg flags as GetCurWPosV3 reports them: mod cf1..cf6
+ * mod bit 0: wrist flipped (J5 < 0), bit 1: elbow down, bit 2: arm behind axis 1
+ * cf1..cf6: turn of each joint, 0 for (-180, 180]
+ */
+const currentCfg = () => {
+    const [j1, , j3, , j5] = robot.joints;
+    let wrist = dhMatrix(DH[0], j1);
+    for (let i = 1; i < 4; i++) wrist = matMul(wrist, dhMatrix(DH[i], robot.joints[i]));
+    const th1 = (j1 + DH[0].offset) * DEG;
+    const radial = wrist[0][3] * Math.cos(th1) + wrist[1][3] * Math.sin(th1);
+    const elbow = Math.sin((j3 + DH[2].offset) * DEG + Math.atan2(DH[3].d, DH[2].a));
+
+    const mod = (j5 < 0 ? 1 : 0) | (elbow < 0 ? 2 : 0) | (radial < 0 ? 4 : 0);
+    return [mod, ...robot.joints.map((j) => Math.ceil((j - 180) / 360 - 1e-9) || 0)];
+};
+
+const fmt = (v) => v.toFixed(3);
+
+// ============ MOTION ============
+
+// Motion events go to the connection that sent the move
+const sendEvent = (conn, text) => conn.send(text);
+
+const stopAllMotion = () => {
+    const stopped = [robot.motion, ...robot.motionQueue].filter(Boolean);
+    robot.motion = null;
+    robot.motionQueue = [];
+    robot.jog = null;
+    for (const move of stopped) {
+        sendEvent(move.conn, `[RobotStop: ${move.id}]`);
+    }
+};
+
+/**
+ * Queue move, fail right away if the target is unreachable
+ * kind: 'joint' (joint interpolation) or 'linear' (straight line in world)
+ */
+const queueMove = (conn, id, kind, target, speedPct, accurate) => {
+    robot.motionQueue.push({ conn, id, kind, target, speedPct, accurate });
+    if (!robot.motion) startNextMove();
+};
+
+const startNextMove = () => {
+    const move = robot.motionQueue.shift();
+    if (!move) return;
+
+    const ratio = Math.max(0.01, (move.speedPct / 100) * (robot.speed / 100));
+    move.fromJoints = [...robot.joints];
+    move.fromPose = worldPose();
+
+    if (move.kind === 'linear') {
+        const dist = Math.hypot(move.target.x - move.fromPose.x, move.target.y - move.fromPose.y, move.target.z - move.fromPose.z);
+        const rot = Math.max(...['a', 'b', 'c'].map(k => Math.abs(move.target[k] - move.fromPose[k])));
+        move.duration = Math.max(0.1, dist / (LINEAR_SPEED * ratio), rot / (JOINT_SPEED * ratio));
+    } else {
+        const delta = Math.max(...move.target.map((j, i) => Math.abs(j - move.fromJoints[i])));
+        move.duration = Math.max(0.1, delta / (JOINT_SPEED * ratio));
+    }
+    move.elapsed = 0;
+    robot.motion = move;
+    console.log(`[Virtual] Move ${move.id} started (${move.kind}, ${move.duration.toFixed(2)}s)`);
+};
+
+const failMotion = (reason) => {
+    console.warn(`[Virtual] Motion stopped: ${reason}`);
+    robot.errorId = 1001;
+    stopAllMotion();
+};
+
+const stepMotion = (dt) => {
+    const move = robot.motion;
+    if (!move) return;
+
+    move.elapsed += dt;
+    const t = Math.min(1, move.elapsed / move.duration);
+    // Smooth start and stop
+    const s = t * t * (3 - 2 * t);
+
+    if (move.kind === 'linear') {
+        const pose = {};
+        for (const k of ['x', 'y', 'z', 'a', 'b', 'c']) {
+            pose[k] = move.fromPose[k] + (move.target[k] - move.fromPose[k]) * s;
+        }
+        const joints = inverseKinematics(pose, robot.joints, toolPose());
+        if (!joints || !withinLimits(joints)) {
+            failMotion(`no solution along line for move ${move.id}`);
+            return;
+        }
+        robot.joints = joints;
+    } else {
+        robot.joints = move.fromJoints.map((j, i) => j + (move.target[i] - j) * s);
+    }
+
+    if (t >= 1) {
+        robot.motion = null;
+        sendEvent(move.conn, move.accurate ? `[ActMovFinish: ${move.id}]` : `[FeedMovFinish: ${move.id}]`);
+        console.log(`[Virtual] Move ${move.id} finished`);
+        startNextMove();
+    }
+};
+
+const stepJog = (dt) => {
+    if (!robot.jog) return;
+    const { axis, dir } = robot.jog;
+    const ratio = robot.speed / 100;
+
+    if (robot.coordType === CoordType.JOINT) {
+        const joints = [...robot.joints];
+        joints[axis - 1] += dir * JOG_JOINT_SPEED * ratio * dt;
+        if (!withinLimits(joints)) {
+            robot.jog = null;
+            return;
+        }
+        robot.joints = joints;
+        return;
+    }
+
+    // Cartesian jog: axes 1-3 translate (mm), 4-6 rotate (deg)
+    const step = axis <= 3 ? JOG_LINEAR_SPEED * ratio * dt : JOG_JOINT_SPEED * ratio * dt;
+    const offset = { x: 0, y: 0, z: 0, a: 0, b: 0, c: 0 };
+    offset[['x', 'y', 'z', 'a', 'b', 'c'][axis - 1]] = dir * step;
+
+    const current = forwardMatrix(robot.joints, toolPose());
+    const delta = poseToMatrix(offset);
+    // Tool frame jog moves along the tool axes, world/user along base axes
+    let target;
+    if (robot.coordType === CoordType.TOOL) {
+        target = matMul(current, delta);
+    } else {
+        target = matMul(delta, [[current[0][0], current[0][1], current[0][2], 0],
+            [current[1][0], current[1][1], current[1][2], 0],
+            [current[2][0], current[2][1], current[2][2], 0], [0, 0, 0, 1]]);
+        target[0][3] = current[0][3] + (axis <= 3 ? offset.x : 0);
+        target[1][3] = current[1][3] + (axis <= 3 ? offset.y : 0);
+        target[2][3] = current[2][3] + (axis <= 3 ? offset.z : 0);
+    }
+
+    const joints = inverseKinematics(matrixToPose(target), robot.joints, toolPose());
+    if (!joints || !withinLimits(joints)) {
+        robot.jog = null;
+        return;
+    }
+    robot.joints = joints;
+};
+
+// ============ TCP STRING PROTOCOL ============
+
+/**
+ * Split argument list, keeping quoted strings intact
+ * 1,"a,b",2 -> [1, 'a,b', 2]
+ */
+const parseArgs = (argStr) => {
+    const args = [];
+    let current = '';
+    let quoted = false;
+    for (const ch of argStr) {
+        if (ch === '"') {
+            quoted = !quoted;
+        } else if (ch === ',' && !quoted) {
+            args.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim() !== '' || args.length > 0) args.push(current.trim());
+    return args;
+};
+
+const numbers = (str) => String(str).split('_').filter(s => s.trim() !== '').map(Number);
+
+// Handler result: string (Ok with data), true (Ok), false (FAIL), 'MOTION' (answered by event)
+const MOTION = 'MOTION';
+
+const requireServo = () => robot.servo && robot.errorId === 0;
+
+const moveCommand = (conn, id, moveType, pointPos, speedPct, accurate) => {
+    if (!requireServo() || robot.runStatus === RunStatus.RUNNING) return false;
+    const values = numbers(pointPos);
+    if (values.length < 6 || values.some(Number.isNaN)) return false;
+
+    if (moveType === 1) {
+        const target = values.slice(0, 6);
+        if (!withinLimits(target)) return false;
+        queueMove(conn, id, 'joint', target, speedPct, accurate);
+        return MOTION;
+    }
+
+    const [x, y, z, a, b, c] = values;
+    const pose = { x, y, z, a, b, c };
+    // Reachability check, seeded from the current joints to stay on the same branch
+    const joints = inverseKinematics(pose, robot.joints, toolPose());
+    if (!joints || !withinLimits(joints)) return false;
+
+    if (moveType === 2) {
+        queueMove(conn, id, 'linear', pose, speedPct, accurate);
+    } else {
+        queueMove(conn, id, 'joint', joints, speedPct, accurate);
+    }
+    return MOTION;
+};
+
+const readVar = (type, name) => {
+    const value = robot.vars.get(`${type}:${name}`);
+    if (value === undefined) return false;
+    const id = Number(name.match(/(\d+)$/)?.[1] ?? 0);
+
+    switch (type) {
+        case VarType.INT:
+        case VarType.REAL:
+        case VarType.STRING:
+            return String(value);
+        case VarType.APOS:
+        case VarType.ARRAY:
+            return value.map(fmt).join(' ');
+        case VarType.CPOS:
+        case VarType.CPOS_WITH_CFG:
+            return value.map(fmt).join(' ');
+        case VarType.TOOL:
+        case VarType.TOOL_WITH_PAYLOAD:
+        case VarType.USERCOORD:
+            return [id, ...value].map(fmt).join(' ');
+        default:
+            return false;
+    }
+};
+
+const writeVar = (type, name, raw) => {
+    switch (type) {
+        case VarType.INT:
+            if (Number.isNaN(parseInt(raw))) return false;
+            robot.vars.set(`${type}:${name}`, parseInt(raw));
+            return true;
+        case VarType.REAL:
+            if (Number.isNaN(parseFloat(raw))) return false;
+            robot.vars.set(`${type}:${name}`, parseFloat(raw));
+            return true;
+        case VarType.STRING:
+            robot.vars.set(`${type}:${name}`, raw);
+            return true;
+        case VarType.APOS: {
+            const v = numbers(raw);
+            robot.vars.set(`${type}:${name}`, [...v, ...new Array(16).fill(0)].slice(0, 16));
+            return true;
+        }
+        case VarType.CPOS: {
+            // mod_x_y_z_a_b_c -> stored as mod cf1..cf6 x y z a b c
+            const [mod = 0, x = 0, y = 0, z = 0, a = 0, b = 0, c = 0] = numbers(raw);
+            robot.vars.set(`${VarType.CPOS}:${name}`, [mod, 0, 0, 0, 0, 0, 0, x, y, z, a, b, c]);
+            return true;
+        }
+        case VarType.CPOS_WITH_CFG: {
+            const v = numbers(raw);
+            if (v.length < 13) return false;
+            robot.vars.set(`${VarType.CPOS}:${name}`, v.slice(0, 13));
+            return true;
+        }
+        case VarType.ARRAY:
+            robot.vars.set(`${type}:${name}`, numbers(raw));
+            return true;
+        case VarType.TOOL:
+        case VarType.TOOL_WITH_PAYLOAD:
+        case VarType.USERCOORD: {
+            const v = numbers(raw);
+            if (v.length < 6) return false;
+            const key = type === VarType.USERCOORD ? VarType.USERCOORD : VarType.TOOL;
+            robot.vars.set(`${key}:${name}`, v.slice(0, type === VarType.TOOL_WITH_PAYLOAD ? 16 : 6));
+            return true;
+        }
+        default:
+            return false;
+    }
+};
+
+const ioBank = (type) => robot.io[IO_BANKS[type]];
+
+// Command handlers by lower-case name
+const handlers = {
+    getcurjpos: () => robot.joints.map(fmt).join(' '),
+    getcurwpos: () => {
+        const p = worldPose();
+        return [p.x, p.y, p.z, p.a, p.b, p.c].map(fmt).join(' ') + ` ${currentCfg()[0]}`;
+    },
+    getcurwposv3: () => {
+        const p = worldPose();
+        return [...currentCfg(), p.x, p.y, p.z, p.a, p.b, p.c].map(fmt).join(' ');
+    },
+
+    // Points and variables
+    setpointpos_1: ([name, value, type]) => writeVar(Number(type) === 1 ? VarType.APOS : VarType.CPOS, name, value),
+    camgetpoint_s: ([name]) => {
+        const apos = robot.vars.get(`${VarType.APOS}:${name}`);
+        if (apos) return apos.slice(0, 6).map(fmt).join(',');
+        const cpos = robot.vars.get(`${VarType.CPOS}:${name}`);
+        if (!cpos) return false;
+        const [mod, cf1, cf2, cf3, cf4, cf5, cf6, x, y, z, a, b, c] = cpos;
+        return [...[x, y, z, a, b, c].map(fmt), mod, cf1, cf2, cf3, cf4, cf5, cf6].join(',');
+    },
+    camsetvar_1_s: ([name, value, type]) => writeVar(Number(type), name, value),
+    camreadvar_s: ([name, type]) => readVar(Number(type), name),
+    getvarv3: ([type, name]) => readVar(Number(type), name),
+    setvarv3: ([type, name, value]) => writeVar(Number(type), name, value),
+
+    // IO
+    setiovalue: ([index, type, value]) => {
+        const bank = ioBank(Number(type));
+        const i = Number(index) - 1;
+        if (!bank || i < 0 || i >= bank.length) return false;
+        bank[i] = Number(value);
+        return true;
+    },
+    iogetdout: ([i]) => readIo('dout', i),
+    iogetdin: ([i]) => readIo('din', i),
+    iogetaout: ([i]) => readIo('aout', i),
+    iogetain: ([i]) => readIo('ain', i),
+    iogetsimdout: ([i]) => readIo('simDout', i),
+    iogetsimdin: ([i]) => readIo('simDin', i),
+    iogetsimaout: ([i]) => readIo('simAout', i),
+    iogetsimain: ([i]) => readIo('simAin', i),
+    setmultiiovalue: ([values, start, type, count]) => {
+        const bank = ioBank(Number(type));
+        const v = numbers(values);
+        const first = Number(start) - 1;
+        if (!bank || first < 0 || first + Number(count) > bank.length || v.length < Number(count)) return false;
+        for (let i = 0; i < Number(count); i++) bank[first + i] = v[i];
+        return true;
+    },
+    getmultiiovalue: ([start, type, count]) => {
+        const bank = ioBank(Number(type));
+        const first = Number(start) - 1;
+        if (!bank || first < 0 || first + Number(count) > bank.length) return false;
+        return bank.slice(first, first + Number(count)).join(',');
+    },
+
+    // Mode, speed, status
+    changemode_iface: ([mode]) => {
+        if (isMoving() || ![0, 1, 2].includes(Number(mode))) return false;
+        robot.mode = Number(mode);
+        return true;
+    },
+    getcursysmode_iface: () => String(robot.mode),
+    setgoablespeed_iface: ([speed]) => {
+        const v = Number(speed);
+        if (!(v >= 1 && v <= 100)) return false;
+        robot.speed = v;
+        return true;
+    },
+    setrunmode_iface: ([mode]) => {
+        robot.runMode = Number(mode);
+        return true;
+    },
+    getgoablespeed_iface: () => String(robot.speed),
+    getrobotrunstatus_iface: () => String(robot.runStatus),
+    reseterrorid_iface: () => {
+        robot.errorId = 0;
+        if (robot.runStatus === RunStatus.ERROR) robot.runStatus = RunStatus.STOPPED;
+        return true;
+    },
+    geterrorid_iface: () => String(robot.errorId),
+
+    // Program
+    startrun_iface: () => {
+        if (!requireServo() || !robot.programLoaded || robot.mode === RobotMode.MANUAL) return false;
+        robot.runStatus = RunStatus.RUNNING;
+        return true;
+    },
+    stoprun_iface: () => {
+        stopAllMotion();
+        if (robot.runStatus === RunStatus.RUNNING) robot.runStatus = RunStatus.STOPPED;
+        return true;
+    },
+    loaduserprjprog_iface: ([project, program]) => {
+        robot.project = project;
+        robot.program = program;
+        robot.programLoaded = true;
+        return true;
+    },
+    unloaduserprj_iface: () => {
+        robot.programLoaded = false;
+        return true;
+    },
+    unloaduserprog_iface: () => {
+        robot.programLoaded = false;
+        return true;
+    },
+    isrobotmoving_iface: () => (isMoving() ? '1' : '0'),
+    isprogramloaded_iface: () => robot.programLoaded,
+    setpc_iface: ([index]) => {
+        robot.pc = Number(index);
+        return true;
+    },
+
+    // Servo and frames
+    setmotservostatus_iface: ([enabled]) => {
+        if (Number(enabled) === 0) stopAllMotion();
+        robot.servo = Number(enabled) !== 0;
+        return true;
+    },
+    getservosts_iface: () => (robot.servo ? '1' : '0'),
+    setcoordtype_iface: ([type]) => {
+        if (![0, 1, 2, 3].includes(Number(type)) || robot.jog) return false;
+        robot.coordType = Number(type);
+        return true;
+    },
+    gercurcoordtype_iface: () => String(robot.coordType),
+    settool_iface: ([, name]) => {
+        if (!robot.vars.has(`${VarType.TOOL}:${name}`) || isMoving()) return false;
+        robot.tool = name;
+        return true;
+    },
+    setcoord_iface: ([, name]) => {
+        if (!robot.vars.has(`${VarType.USERCOORD}:${name}`) || isMoving()) return false;
+        robot.userCoord = name;
+        return true;
+    },
+    gettoolv3: () => `${robot.tool}, 1`,
+    getusercoordv3: () => `${robot.userCoord}, 1`,
+    setpayload_iface: ([, name]) => {
+        robot.payload = name;
+        return true;
+    },
+
+    // Jog
+    jogmotion_iface: ([axis, dir]) => {
+        const a = Number(axis);
+        if (!requireServo() || robot.mode !== RobotMode.MANUAL || robot.motion || !(a >= 1 && a <= 6)) return false;
+        robot.jog = { axis: a, dir: Number(dir) > 0 ? 1 : -1 };
+        return true;
+    },
+    jogmotionstop_iface: () => {
+        robot.jog = null;
+        return true;
+    },
+
+    // Point motion (answered by finish events)
+    movetoselectpoint_iface: ([type, pos, param], conn, id) =>
+        moveCommand(conn, id, Number(type), pos, numbers(param)[1] ?? 50, false),
+    movetoselectpointb_iface: ([type, pos, param], conn, id) =>
+        moveCommand(conn, id, Number(type), pos, numbers(param)[1] ?? 50, false),
+    movewithsearch_iface: ([type, pos, param], conn, id) =>
+        moveCommand(conn, id, Number(type), pos, numbers(param)[0] ?? 50, false),
+    movepointv3: ([type, pos, , param], conn, id) => {
+        const [, speed = 50, , accuracy = 0] = numbers(param);
+        return moveCommand(conn, id, Number(type), pos, speed, accuracy !== 0);
+    },
+    stopdestposmotion_iface: () => {
+        stopAllMotion();
+        return true;
+    },
+    teachselectpoint_iface: ([name]) => {
+        robot.vars.set(`${VarType.APOS}:${name}`, [...robot.joints, ...new Array(10).fill(0)]);
+        return true;
+    },
+    movefinsih: () => true,
+    setrttoerr_iface: ([, errNum]) => {
+        robot.errorId = Number(errNum);
+        return true;
+    },
+
+    // Soft limits
+    getsoftlimits: ([axis]) => {
+        const limits = robot.softLimits[Number(axis) - 1];
+        return limits ? limits.map(fmt).join(' ') : false;
+    },
+    setsoftlimits: ([axis, min, max]) => {
+        const i = Number(axis) - 1;
+        if (!robot.softLimits[i] || !(Number(min) < Number(max))) return false;
+        robot.softLimits[i] = [Number(min), Number(max)];
+        return true;
+    },
+    clear3dcmds: () => {
+        robot.motionQueue = [];
+        return true;
+    }
+};
+
+// Manual spells the multi-IO commands with a "_Face" suffix
+handlers.setmultiiovalue_face = handlers.setmultiiovalue;
+handlers.getmultiiovalue_face = handlers.getmultiiovalue;
+
+function readIo(bank, index) {
+    const i = Number(index) - 1;
+    const values = robot.io[bank];
+    if (i < 0 || i >= values.length) return false;
+    return String(values[i]);
+}
+
+/**
+ * Execute one frame: Cmd(args); id = X
+ */
+const executeFrame = (conn, frame) => {
+    const match = frame.match(/^\s*([A-Za-z0-9_]+)\s*\(([\s\S]*)\)\s*;\s*id\s*=\s*(\d+)\s*$/i);
+    if (!match) {
+        console.warn(`[Virtual] Unrecognized frame: [${frame}]`);
+        return;
+    }
+
+    const [, name, argStr, idStr] = match;
+    const id = parseInt(idStr);
+    const handler = handlers[name.toLowerCase()];
+    let result = false;
+    try {
+        result = handler ? handler(parseArgs(argStr), conn, id) : false;
+    } catch (err) {
+        console.warn(`[Virtual] ${name} failed: ${err.message}`);
+    }
+
+    console.log(`[Virtual] ← ${name}(${argStr}) id=${id} -> ${result === MOTION ? 'queued' : result === false ? 'FAIL' : 'Ok'}`);
+    if (result === MOTION) return;
+
+    if (result === false) {
+        conn.send(`[id = ${id}; FAIL]`);
+    } else if (result === true) {
+        conn.send(`[id = ${id}; Ok]`);
+    } else {
+        conn.send(`[id = ${id}; Ok; ${result}]`);
+    }
+};
+
+/**
+ * Serve TCP string protocol on a socket (incoming client or outgoing vision link)
+ */
+const serveTcpString = (socket, label) => {
+    let buffer = '';
+    let lastSent = Date.now();
+
+    const conn = {
+        send: (text) => {
+            if (socket.destroyed) return;
+            socket.write(text);
+            lastSent = Date.now();
+        }
+    };
+
+    // Heartbeat while idle
+    const heartbeat = setInterval(() => {
+        if (Date.now() - lastSent >= HEARTBEAT_INTERVAL) {
+            conn.send(' ');
+        }
+    }, 1000);
+
+    socket.on('data', (data) => {
+        buffer += data.toString('utf8');
+        let end;
+        while ((end = buffer.indexOf(']')) !== -1) {
+            const start = buffer.lastIndexOf('[', end);
+            if (start !== -1) executeFrame(conn, buffer.substring(start + 1, end));
+            buffer = buffer.substring(end + 1);
+        }
+        // Drop heartbeats and noise between frames
+        if (!buffer.includes('[')) buffer = '';
+    });
+
+    socket.on('error', (err) => {
+        console.warn(`[Virtual] ${label} socket error: ${err.message}`);
+    });
+
+    socket.on('close', () => {
+        clearInterval(heartbeat);
+        console.log(`[Virtual] ${label} disconnected`);
+    });
+
+    return conn;
+};
+
+// Robot-as-client link to the proxy's vision server (reconnects like a real robot)
+const dialVisionServer = () => {
+    const socket = net.connect({ host: VISION_SERVER_HOST, port: VISION_SERVER_PORT }, () => {
+        console.log(`[Virtual] ✓ Connected to vision server ${VISION_SERVER_HOST}:${VISION_SERVER_PORT}`);
+    });
+    serveTcpString(socket, 'Vision server link');
+    socket.on('close', () => setTimeout(dialVisionServer, 5000));
+};
+
+if (DIAL_VISION_SERVER) {
+    // The proxy owns the TCP string port in this mode, the robot only dials out
+    dialVisionServer();
+} else {
+    const tcpServer = net.createServer((socket) => {
+        const label = `TCP client ${socket.remoteAddress}:${socket.remotePort}`;
+        console.log(`[Virtual] ✓ ${label} connected`);
+        serveTcpString(socket, label);
+    });
+
+    tcpServer.on('error', (err) => console.error(`[Virtual] ✗ TCP String server error: ${err.message}`));
+    tcpServer.listen(TCP_PORT, () => console.log(`[Virtual] TCP String server listening on port ${TCP_PORT}`));
+}
+
+// ============ MODBUS TCP ============
+// Address = register - 40001 (40001 heartbeat = address 0)
+
+const REG = {
+    HEARTBEAT: 0, // 40001
+    SPEED: 1, // 40002
+    RW_FLAG: 2, // 40003
+    STATUS: 3, // 40004
+    PROJECT_NAME: 4, // 40005-40013
+    DO_BANKS: 13, // 40014-40017
+    COMMAND_STATUS: 17, // 40018
+    COMMAND_FLAG: 50, // 40051
+    COMMAND: 51, // 40052
+    SET_SPEED: 52, // 40053
+    POSITION: 100, // X,_,Y,_,Z,_,A,_,B,_,C,_ (int32 x100, low word first)
+    JOINTS: 200 // J1-J6 (int16 x100)
+};
+
+// 40018 bits
+const CMD_BITS = {
+    COMMAND_ZERO: 1 << 0,
+    WAITING_FOR_CONTROL: 1 << 10,
+    WAITING_FOR_COMMAND: 1 << 11,
+    COMPLETE: 1 << 12,
+    ERROR: 1 << 13
+};
+
+// 40052 command values; the OK bit in 40018 has the same position
+const MODBUS_COMMANDS = {
+    0x02: 'emergencyStop',
+    0x04: 'start',
+    0x08: 'stop',
+    0x10: 'reset',
+    0x20: 'enableUp',
+    0x40: 'enableDown',
+    0x80: 'loadProject',
+    0x100: 'logoutProject',
+    0x200: 'setSpeed'
+};
+const RESET_STATE_MACHINE = 0x400;
+
+const holding = Buffer.alloc(MODBUS_REGISTER_COUNT * 2);
+let commandStatus = CMD_BITS.COMMAND_ZERO | CMD_BITS.WAITING_FOR_COMMAND;
+
+// Master heartbeat (40001), reported as lost after this long without a write
+const HEARTBEAT_TIMEOUT = 3000;
+let lastHeartbeat = 0;
+
+const setReg = (addr, value) => holding.writeUInt16BE(value & 0xFFFF, addr * 2);
+const getReg = (addr) => holding.readUInt16BE(addr * 2);
+
+const setInt32 = (addr, value) => {
+    const raw = Math.round(value) | 0;
+    setReg(addr, raw & 0xFFFF);
+    setReg(addr + 1, (raw >>> 16) & 0xFFFF);
+};
+
+const runModbusCommand = (value) => {
+    const name = MODBUS_COMMANDS[value];
+    let ok = true;
+    switch (name) {
+        case 'emergencyStop':
+        case 'stop':
+            handlers.stoprun_iface();
+            break;
+        case 'start':
+            ok = handlers.startrun_iface() === true;
+            break;
+        case 'reset':
+            handlers.reseterrorid_iface();
+            break;
+        case 'enableUp':
+            handlers.setmotservostatus_iface([1]);
+            break;
+        case 'enableDown':
+            handlers.setmotservostatus_iface([0]);
+            break;
+        case 'loadProject':
+            robot.programLoaded = true;
+            break;
+        case 'logoutProject':
+            robot.programLoaded = false;
+            break;
+        case 'setSpeed':
+            ok = handlers.setgoablespeed_iface([getReg(REG.SET_SPEED)]) === true;
+            break;
+        default:
+            ok = false;
+    }
+    console.log(`[Virtual] Modbus command 0x${value.toString(16)} (${name || 'unknown'}) -> ${ok ? 'OK' : 'ERROR'}`);
+    return ok;
+};
+
+const handleCommandWrite = (value) => {
+    if (value === 0) {
+        // Command register cleared - ready for the next command
+        commandStatus = CMD_BITS.COMMAND_ZERO | CMD_BITS.WAITING_FOR_COMMAND;
+        return;
+    }
+    if (value === RESET_STATE_MACHINE) {
+        commandStatus = CMD_BITS.WAITING_FOR_COMMAND;
+        return;
+    }
+    if (getReg(REG.COMMAND_FLAG) !== 0x11 || !(commandStatus & CMD_BITS.WAITING_FOR_COMMAND)) {
+        commandStatus = CMD_BITS.ERROR;
+        return;
+    }
+
+    commandStatus = 0;
+    // Controller needs a moment to execute
+    setTimeout(() => {
+        const ok = runModbusCommand(value);
+        commandStatus = ok ? (value & 0x3FE) | CMD_BITS.COMPLETE : CMD_BITS.ERROR;
+    }, 100);
+};
+
+const updateRegisters = () => {
+    setReg(REG.SPEED, robot.speed);
+
+    let status = 0;
+    if (robot.mode === RobotMode.MANUAL) status |= 1 << 0;
+    if (robot.mode === RobotMode.AUTO) status |= 1 << 1;
+    if (robot.mode === RobotMode.REMOTE) status |= 1 << 2;
+    if (robot.servo) status |= 1 << 3;
+    if (robot.runStatus === RunStatus.RUNNING) status |= (1 << 4) | (1 << 6);
+    if (robot.errorId !== 0) status |= 1 << 5;
+    if (isMoving()) status |= 1 << 7;
+    setReg(REG.STATUS, status);
+
+    // Project name, two characters per register (low byte first)
+    const name = Buffer.alloc(18);
+    name.write(robot.project.substring(0, 18), 'latin1');
+    for (let i = 0; i < 9; i++) setReg(REG.PROJECT_NAME + i, name.readUInt16LE(i * 2));
+
+    for (let bank = 0; bank < 4; bank++) {
+        let bits = 0;
+        for (let i = 0; i < 16; i++) {
+            if (robot.io.simDout[bank * 16 + i]) bits |= 1 << i;
+        }
+        setReg(REG.DO_BANKS + bank, bits);
+    }
+
+    setReg(REG.COMMAND_STATUS, commandStatus);
+
+    const pose = worldPose();
+    ['x', 'y', 'z', 'a', 'b', 'c'].forEach((k, i) => setInt32(REG.POSITION + i * 2, pose[k] * 100));
+    robot.joints.forEach((j, i) => setReg(REG.JOINTS + i, Math.round(j * 100)));
+};
+
+const modbusNetServer = net.createServer();
+const modbusServer = new jsmodbus.server.TCP(modbusNetServer, { holding });
+
+modbusServer.on('postWriteSingleRegister', (request) => {
+    const { address, value } = request.body;
+    if (address === REG.COMMAND) handleCommandWrite(value);
+    if (address === REG.HEARTBEAT) {
+        if (!lastHeartbeat) console.log('[Virtual] ♥ Master heartbeat started');
+        lastHeartbeat = Date.now();
+    }
+});
+
+modbusServer.on('connection', (client) => {
+    console.log(`[Virtual] ✓ Modbus client connected ${client.socket.remoteAddress}`);
+});
+
+modbusNetServer.on('error', (err) => console.error(`[Virtual] ✗ Modbus server error: ${err.message}`));
+modbusNetServer.listen(MODBUS_PORT, () => console.log(`[Virtual] Modbus TCP server listening on port ${MODBUS_PORT}`));
+
+// ============ SIMULATION LOOP ============
+
+let lastTick = Date.now();
+setInterval(() => {
+    const now = Date.now();
+    const dt = (now - lastTick) / 1000;
+    lastTick = now;
+
+    stepMotion(dt);
+    stepJog(dt);
+    updateRegisters();
+
+    if (lastHeartbeat && now - lastHeartbeat > HEARTBEAT_TIMEOUT) {
+        console.log('[Virtual] ✗ Master heartbeat lost');
+        lastHeartbeat = 0;
+    }
+}, TICK_INTERVAL);
+
+updateRegisters();
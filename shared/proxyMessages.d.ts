@@ -0,0 +1,247 @@
+/**
+ * Proxy Message Contract (types for proxyMessages.js)
+ */
+
+export declare const PROTOCOL_VERSION: 2;
+
+export declare const ClientMessageType: {
+  readonly CONNECT: 'CONNECT';
+  readonly ROBOT_COMMAND: 'ROBOT_COMMAND';
+  readonly READ_REGISTER: 'READ_REGISTER';
+  readonly WRITE_REGISTER: 'WRITE_REGISTER';
+  readonly READ_INPUT_REGISTER: 'READ_INPUT_REGISTER';
+  readonly READ_COIL: 'READ_COIL';
+  readonly LEASE_REQUEST: 'LEASE_REQUEST';
+  readonly LEASE_RELEASE: 'LEASE_RELEASE';
+  readonly LEASE_HANDOVER: 'LEASE_HANDOVER';
+  readonly JOG_KEEPALIVE: 'JOG_KEEPALIVE';
+};
+export type ClientMessageType = typeof ClientMessageType[keyof typeof ClientMessageType];
+
+export declare const ProxyMessageType: {
+  readonly STATUS: 'STATUS';
+  readonly ROBOT_RESPONSE: 'ROBOT_RESPONSE';
+  readonly COMMAND_ERROR: 'COMMAND_ERROR';
+  readonly REGISTER_DATA: 'REGISTER_DATA';
+  readonly REGISTER_WRITTEN: 'REGISTER_WRITTEN';
+  readonly INPUT_DATA: 'INPUT_DATA';
+  readonly COIL_DATA: 'COIL_DATA';
+  readonly ERROR: 'ERROR';
+  readonly HEARTBEAT: 'HEARTBEAT';
+  readonly LEASE: 'LEASE';
+};
+export type ProxyMessageType = typeof ProxyMessageType[keyof typeof ProxyMessageType];
+
+export declare const JOG_WATCHDOG_TIMEOUT: number;
+
+export declare const COMMAND_ID_LIMIT: number;
+
+export declare const REPLY_TYPE: {
+  readonly READ_REGISTER: 'REGISTER_DATA';
+  readonly WRITE_REGISTER: 'REGISTER_WRITTEN';
+  readonly READ_INPUT_REGISTER: 'INPUT_DATA';
+  readonly READ_COIL: 'COIL_DATA';
+};
+
+interface Versioned {
+  v: number;
+}
+
+// ============ FRONTEND -> PROXY ============
+
+export interface ConnectTarget {
+  ip: string;
+  port: number;
+  protocol?: 'MODBUS_TCP' | 'TCP_STRING';         // Default: TCP_STRING on port 5000, else MODBUS_TCP
+  encoding?: 'auto' | 'utf8' | 'utf16le' | 'gbk';  // TCP string frames, default auto-detect
+}
+
+export interface ConnectMessage extends Versioned {
+  type: 'CONNECT';
+  target?: ConnectTarget;
+}
+
+export interface RobotCommandMessage extends Versioned {
+  type: 'ROBOT_COMMAND';
+  command: string;          // [Cmd(); id = X]
+  timeout?: number;         // ms, motion commands answer only when the move ends
+  requestId?: number;
+}
+
+export interface ReadRegisterMessage extends Versioned {
+  type: 'READ_REGISTER';
+  requestId: number;
+  addr: number;             // 0-based
+  count: number;            // 1..125
+}
+
+export interface WriteRegisterMessage extends Versioned {
+  type: 'WRITE_REGISTER';
+  requestId: number;
+  addr: number;
+  val: number;              // 0..65535
+}
+
+export interface ReadInputRegisterMessage extends Versioned {
+  type: 'READ_INPUT_REGISTER';
+  requestId: number;
+  addr: number;
+  count: number;
+}
+
+export interface ReadCoilMessage extends Versioned {
+  type: 'READ_COIL';
+  requestId: number;
+  addr: number;
+  count: number;            // 1..2000
+}
+
+export type RegisterRequest =
+  | ReadRegisterMessage
+  | WriteRegisterMessage
+  | ReadInputRegisterMessage
+  | ReadCoilMessage;
+
+export interface LeaseRequestMessage extends Versioned {
+  type: 'LEASE_REQUEST';
+}
+
+export interface LeaseReleaseMessage extends Versioned {
+  type: 'LEASE_RELEASE';
+}
+
+export interface LeaseHandoverMessage extends Versioned {
+  type: 'LEASE_HANDOVER';
+  to: string;               // clientId of the new holder
+}
+
+export type LeaseMessage = LeaseRequestMessage | LeaseReleaseMessage | LeaseHandoverMessage;
+
+// Sent every few hundred ms while a jog is held
+export interface JogKeepAliveMessage extends Versioned {
+  type: 'JOG_KEEPALIVE';
+}
+
+export type ClientMessage =
+  | ConnectMessage
+  | RobotCommandMessage
+  | RegisterRequest
+  | LeaseMessage
+  | JogKeepAliveMessage;
+
+// ============ PROXY -> FRONTEND ============
+
+export interface StatusMessage extends Versioned {
+  type: 'STATUS';
+  connected: boolean;       // Robot link up
+  robotIp?: string;
+  robotPort?: number;
+  protocol?: string;        // MODBUS_TCP or TCP_STRING
+  mode?: string;            // CLIENT or VISION_SERVER
+  error?: string;
+  errorCode?: string;
+  reason?: string;
+  attempt?: number;         // Proxy retry of the robot link, counted from 1
+  retryIn?: number;         // ms until that attempt
+}
+
+export interface RobotResponseMessage extends Versioned {
+  type: 'ROBOT_RESPONSE';
+  response: string;         // Raw frame, e.g. [id = 1; Ok; ...]
+}
+
+export interface CommandErrorMessage extends Versioned {
+  type: 'COMMAND_ERROR';
+  command: string;
+  error: string;
+  requestId?: number;
+}
+
+export interface RegisterDataMessage extends Versioned {
+  type: 'REGISTER_DATA';
+  requestId: number;
+  addr: number;
+  count: number;
+  values: number[];
+}
+
+export interface RegisterWrittenMessage extends Versioned {
+  type: 'REGISTER_WRITTEN';
+  requestId: number;
+  addr: number;
+  val: number;
+}
+
+export interface InputDataMessage extends Versioned {
+  type: 'INPUT_DATA';
+  requestId: number;
+  addr: number;
+  count: number;
+  values: number[];
+}
+
+export interface CoilDataMessage extends Versioned {
+  type: 'COIL_DATA';
+  requestId: number;
+  addr: number;
+  count: number;
+  values: number[];         // 0 / 1
+}
+
+export interface ErrorMessage extends Versioned {
+  type: 'ERROR';
+  message: string;
+  requestId?: number;       // Request that failed
+  addr?: number;
+}
+
+export interface HeartbeatMessage extends Versioned {
+  type: 'HEARTBEAT';
+  connected: boolean;
+  timestamp: number;
+}
+
+// Frontend connected to the proxy
+export interface SessionClient {
+  id: string;
+  address: string;          // Remote IP
+  connectedAt: number;      // epoch ms
+}
+
+export interface LeaseStateMessage extends Versioned {
+  type: 'LEASE';
+  clientId: string;         // Receiving client
+  holder: string | null;    // Client holding the control lease
+  clients: SessionClient[];
+  requests: string[];       // Clients waiting for the lease, oldest first
+}
+
+export type RegisterReply =
+  | RegisterDataMessage
+  | RegisterWrittenMessage
+  | InputDataMessage
+  | CoilDataMessage;
+
+export type ProxyMessage =
+  | StatusMessage
+  | RobotResponseMessage
+  | CommandErrorMessage
+  | RegisterReply
+  | ErrorMessage
+  | HeartbeatMessage
+  | LeaseStateMessage;
+
+// Successful reply to a request of type T
+export type ReplyTo<T extends RegisterRequest['type']> = Extract<RegisterReply, { type: typeof REPLY_TYPE[T] }>;
+
+// Register request as passed to RobotTransport.request
+export type RequestOf<K extends RegisterRequest['type']> =
+  Omit<Extract<RegisterRequest, { type: K }>, 'v' | 'requestId'> & { type: K };
+
+// Message as passed to RobotTransport: v is stamped and requestId assigned on send
+export type Outgoing<T extends ClientMessage> = T extends unknown
+  ? Omit<T, 'v' | 'requestId'> & { requestId?: number }
+  : never;
+
+export declare function validateClientMessage(data: unknown): ClientMessage;
+export declare function validateProxyMessage(data: unknown): ProxyMessage;
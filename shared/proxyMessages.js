@@ -0,0 +1,171 @@
+/**
+ * Proxy Message Contract
+ * Messages exchanged between the frontend (RobotTransport) and the proxy (server/index.js)
+ *
+ * - Every message carries the protocol version (v) and its type
+ * - Register reads and writes carry a requestId; the reply (REGISTER_DATA,
+ *   REGISTER_WRITTEN, INPUT_DATA, COIL_DATA or ERROR) echoes it
+ * - Each end validates what it receives: validateClientMessage on the proxy,
+ *   validateProxyMessage in the frontend
+ * - Several frontends may be connected; only the holder of the control lease
+ *   may send CONNECT targets, ROBOT_COMMAND, WRITE_REGISTER and JOG_KEEPALIVE (see LEASE)
+ * - A jog is stopped by the proxy when its keep-alives stop (JOG_WATCHDOG_TIMEOUT)
+ *
+ * Plain JavaScript so the proxy loads it without a build step,
+ * the TypeScript types are in proxyMessages.d.ts
+ */
+
+export const PROTOCOL_VERSION = 2;
+
+// Frontend -> proxy
+export const ClientMessageType = {
+  CONNECT: 'CONNECT',
+  ROBOT_COMMAND: 'ROBOT_COMMAND',
+  READ_REGISTER: 'READ_REGISTER',
+  WRITE_REGISTER: 'WRITE_REGISTER',
+  READ_INPUT_REGISTER: 'READ_INPUT_REGISTER',
+  READ_COIL: 'READ_COIL',
+  LEASE_REQUEST: 'LEASE_REQUEST',    // Ask for the control lease
+  LEASE_RELEASE: 'LEASE_RELEASE',    // Give it up (holder only)
+  LEASE_HANDOVER: 'LEASE_HANDOVER',  // Pass it to another client (holder only)
+  JOG_KEEPALIVE: 'JOG_KEEPALIVE'     // A jog is still held (holder only, see JOG_WATCHDOG_TIMEOUT)
+};
+
+// Proxy -> frontend
+export const ProxyMessageType = {
+  STATUS: 'STATUS',
+  ROBOT_RESPONSE: 'ROBOT_RESPONSE',  // To the client that sent the command, with its command id
+  COMMAND_ERROR: 'COMMAND_ERROR',
+  REGISTER_DATA: 'REGISTER_DATA',
+  REGISTER_WRITTEN: 'REGISTER_WRITTEN',
+  INPUT_DATA: 'INPUT_DATA',
+  COIL_DATA: 'COIL_DATA',
+  ERROR: 'ERROR',
+  HEARTBEAT: 'HEARTBEAT',
+  LEASE: 'LEASE'                     // Session and lease state, sent on every change
+};
+
+// While a JogMotion_IFace runs, the proxy sends JogMotionStop_IFace itself when
+// no JOG_KEEPALIVE (or jog command) arrived for this long
+export const JOG_WATCHDOG_TIMEOUT = 1000;
+
+// Robot command ids: frontends cycle through 0 .. COMMAND_ID_LIMIT - 1, ids from
+// COMMAND_ID_LIMIT up belong to commands the proxy sends itself (never broadcast)
+export const COMMAND_ID_LIMIT = 10000;
+
+// Successful reply to each request type (a failed request is answered with ERROR)
+export const REPLY_TYPE = {
+  READ_REGISTER: 'REGISTER_DATA',
+  WRITE_REGISTER: 'REGISTER_WRITTEN',
+  READ_INPUT_REGISTER: 'INPUT_DATA',
+  READ_COIL: 'COIL_DATA'
+};
+
+// Robot link protocols and TCP string encodings a CONNECT target may ask for
+const ROBOT_PROTOCOLS = ['MODBUS_TCP', 'TCP_STRING'];
+const ROBOT_ENCODINGS = ['auto', 'utf8', 'utf16le', 'gbk'];
+
+// Most registers / coils a single Modbus read may return
+const MAX_REGISTER_COUNT = 125;
+const MAX_COIL_COUNT = 2000;
+
+const isInt = (value, min, max) => Number.isInteger(value) && value >= min && value <= max;
+
+// Field kinds
+const KINDS = {
+  string: value => typeof value === 'string',
+  number: value => typeof value === 'number' && Number.isFinite(value),
+  boolean: value => typeof value === 'boolean',
+  requestId: value => isInt(value, 1, Number.MAX_SAFE_INTEGER),
+  address: value => isInt(value, 0, 0xFFFF),
+  count: value => isInt(value, 1, MAX_REGISTER_COUNT),
+  coilCount: value => isInt(value, 1, MAX_COIL_COUNT),
+  word: value => isInt(value, 0, 0xFFFF),
+  words: value => Array.isArray(value) && value.every(word => isInt(word, 0, 0xFFFF)),
+  target: value => !!value && typeof value === 'object' &&
+    typeof value.ip === 'string' && isInt(value.port, 1, 65535) &&
+    (value.protocol === undefined || ROBOT_PROTOCOLS.includes(value.protocol)) &&
+    (value.encoding === undefined || ROBOT_ENCODINGS.includes(value.encoding)),
+  clientId: value => typeof value === 'string' && value.length > 0,
+  clientIds: value => Array.isArray(value) && value.every(KINDS.clientId),
+  holder: value => value === null || KINDS.clientId(value),
+  sessions: value => Array.isArray(value) && value.every(session =>
+    !!session && typeof session === 'object' && KINDS.clientId(session.id) &&
+    typeof session.address === 'string' && KINDS.number(session.connectedAt))
+};
+
+// Fields per message type; a trailing '?' marks an optional field
+const CLIENT_SCHEMA = {
+  CONNECT: { target: 'target?' },
+  ROBOT_COMMAND: { command: 'string', timeout: 'number?', requestId: 'requestId?' },
+  READ_REGISTER: { requestId: 'requestId', addr: 'address', count: 'count' },
+  WRITE_REGISTER: { requestId: 'requestId', addr: 'address', val: 'word' },
+  READ_INPUT_REGISTER: { requestId: 'requestId', addr: 'address', count: 'count' },
+  READ_COIL: { requestId: 'requestId', addr: 'address', count: 'coilCount' },
+  LEASE_REQUEST: {},
+  LEASE_RELEASE: {},
+  LEASE_HANDOVER: { to: 'clientId' },
+  JOG_KEEPALIVE: {}
+};
+
+const PROXY_SCHEMA = {
+  STATUS: {
+    connected: 'boolean',
+    robotIp: 'string?',
+    robotPort: 'number?',
+    protocol: 'string?',
+    mode: 'string?',
+    error: 'string?',
+    errorCode: 'string?',
+    reason: 'string?',
+    attempt: 'number?',
+    retryIn: 'number?'
+  },
+  ROBOT_RESPONSE: { response: 'string' },
+  COMMAND_ERROR: { command: 'string', error: 'string', requestId: 'requestId?' },
+  REGISTER_DATA: { requestId: 'requestId', addr: 'address', count: 'count', values: 'words' },
+  REGISTER_WRITTEN: { requestId: 'requestId', addr: 'address', val: 'word' },
+  INPUT_DATA: { requestId: 'requestId', addr: 'address', count: 'count', values: 'words' },
+  COIL_DATA: { requestId: 'requestId', addr: 'address', count: 'coilCount', values: 'words' },
+  ERROR: { message: 'string', requestId: 'requestId?', addr: 'address?' },
+  HEARTBEAT: { connected: 'boolean', timestamp: 'number' },
+  LEASE: { clientId: 'clientId', holder: 'holder', clients: 'sessions', requests: 'clientIds' }
+};
+
+const validate = (data, schema, side) => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Message is not an object');
+  }
+  if (data.v === undefined) {
+    throw new Error(`Missing protocol version (expected v=${PROTOCOL_VERSION})`);
+  }
+  if (data.v !== PROTOCOL_VERSION) {
+    throw new Error(`Unsupported protocol version ${data.v} (expected ${PROTOCOL_VERSION})`);
+  }
+
+  const fields = Object.hasOwn(schema, data.type) ? schema[data.type] : null;
+  if (!fields) {
+    throw new Error(`Unknown ${side} message type: ${data.type}`);
+  }
+
+  for (const [name, spec] of Object.entries(fields)) {
+    const optional = spec.endsWith('?');
+    const kind = optional ? spec.slice(0, -1) : spec;
+    const value = data[name];
+    if (value === undefined && optional) continue;
+    if (!KINDS[kind](value)) {
+      throw new Error(`${data.type}.${name}: expected ${kind}, got ${JSON.stringify(value)}`);
+    }
+  }
+  return data;
+};
+
+/**
+ * Validate a message sent by the frontend, returns it unchanged or throws
+ */
+export const validateClientMessage = data => validate(data, CLIENT_SCHEMA, 'client');
+
+/**
+ * Validate a message sent by the proxy, returns it unchanged or throws
+ */
+export const validateProxyMessage = data => validate(data, PROXY_SCHEMA, 'proxy');
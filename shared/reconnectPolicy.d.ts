@@ -0,0 +1,15 @@
+/**
+ * Reconnect Policy (types for reconnectPolicy.js)
+ */
+
+export interface ReconnectPolicy {
+  initialDelay: number; // ms before the first retry
+  maxDelay: number;     // upper bound for the backoff delay (ms)
+  factor: number;       // delay multiplier per attempt
+  maxAttempts: number;  // give up after this many retries
+  jitter: number;       // random spread as fraction of the delay (0..1)
+}
+
+export declare const DEFAULT_RECONNECT_POLICY: ReconnectPolicy;
+
+export declare function computeReconnectDelay(policy: ReconnectPolicy, attempt: number): number;
@@ -0,0 +1,26 @@
+/**
+ * Reconnect Policy
+ * Exponential backoff with jitter, shared by the frontend (proxy WebSocket, RobotTransport)
+ * and the proxy (robot link, server/index.js)
+ *
+ * Plain JavaScript so the proxy loads it without a build step,
+ * the TypeScript types are in reconnectPolicy.d.ts
+ */
+
+export const DEFAULT_RECONNECT_POLICY = {
+  initialDelay: 1000,  // ms before the first retry
+  maxDelay: 30000,     // upper bound for the backoff delay (ms)
+  factor: 2,           // delay multiplier per attempt
+  maxAttempts: 10,     // give up after this many retries
+  jitter: 0.3          // random spread as fraction of the delay (0..1)
+};
+
+/**
+ * Delay before reconnect attempt N (1-based)
+ * initialDelay * factor^(N-1), capped at maxDelay, +/- jitter
+ */
+export function computeReconnectDelay(policy, attempt) {
+  const base = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.factor, attempt - 1));
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
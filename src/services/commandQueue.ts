@@ -0,0 +1,220 @@
+/**
+ * Command Queue
+ * Serializes TCP string commands to the robot
+ *
+ * - One command in flight at a time, so replies arrive in order
+ * - Queued commands are ordered by priority, then FIFO
+ * - Per-command timeout and cancellation (AbortSignal or cancel(id))
+ * - Safety commands (stop) bypass the queue and drop queued motion commands; they are sent
+ *   next to the command in flight, the proxy matches both answers by id
+ */
+
+import type { CommandResponse } from './robotProtocol';
+
+// Command priorities (lower value is sent first)
+export const CommandPriority = {
+  SAFETY: 0,  // Sent immediately, bypasses the queue
+  HIGH: 1,
+  NORMAL: 2,
+  LOW: 3      // Background polling
+} as const;
+export type CommandPriority = typeof CommandPriority[keyof typeof CommandPriority];
+
+export interface CommandOptions {
+  priority?: CommandPriority;
+  timeout?: number;      // ms, counted from the moment the command is sent
+  signal?: AbortSignal;  // Cancels the command while it waits in the queue
+}
+
+// Sends one command and resolves with its response
+export type CommandDispatcher = (command: string, timeout?: number) => Promise<CommandResponse>;
+
+// Stop commands that may always be sent right away
+const SAFETY_COMMANDS = ['stopRun_IFace', 'StopDestPosMotion_IFace', 'JogMotionStop_IFace'];
+
+// Commands that start robot motion (dropped from the queue when a stop is sent)
+const MOTION_COMMANDS = [
+  'MovePointV3',
+  'MoveToSelectPoint_IFace',
+  'MoveToSelectPointb_IFace',
+  'MoveWithSearch_IFace',
+  'JogMotion_IFace',
+  'startRun_IFace'
+];
+
+// Motion commands answered only when the move ends
+// ([FeedMovFinish: id], [ActMovFinish: id], [RobotStop: id], [SafeDoorIsOpen: id])
+const FINISH_EVENT_COMMANDS = [
+  'MovePointV3',
+  'MoveToSelectPoint_IFace',
+  'MoveToSelectPointb_IFace',
+  'MoveWithSearch_IFace'
+];
+
+/**
+ * Get command name from formatted command
+ * [MovePointV3(1,"..."); id = 5] -> MovePointV3
+ */
+export function getCommandName(command: string): string {
+  const nameMatch = command.match(/^\s*\[?\s*([A-Za-z0-9_]+)\s*\(/);
+  return nameMatch?.[1] ?? '';
+}
+
+export function isSafetyCommand(command: string): boolean {
+  return SAFETY_COMMANDS.includes(getCommandName(command));
+}
+
+export function isMotionCommand(command: string): boolean {
+  return MOTION_COMMANDS.includes(getCommandName(command));
+}
+
+export function reportsMotionFinish(command: string): boolean {
+  return FINISH_EVENT_COMMANDS.includes(getCommandName(command));
+}
+
+interface QueuedCommand {
+  id: number | null;
+  command: string;
+  priority: CommandPriority;
+  timeout?: number;
+  seq: number;
+  resolve: (response: CommandResponse) => void;
+  reject: (error: Error) => void;
+  detach: () => void;
+}
+
+export class CommandQueue {
+  private queue: QueuedCommand[] = [];
+  private active: QueuedCommand | null = null;
+  private seq: number = 0;
+  private dispatch: CommandDispatcher;
+
+  constructor(dispatch: CommandDispatcher) {
+    this.dispatch = dispatch;
+  }
+
+  /**
+   * Number of commands waiting to be sent
+   */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Check if a command is in flight
+   */
+  get busy(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Add command to the queue
+   * Safety commands are dispatched immediately
+   */
+  enqueue(command: string, options: CommandOptions = {}): Promise<CommandResponse> {
+    const { signal, timeout } = options;
+    const priority = options.priority ?? (isSafetyCommand(command) ? CommandPriority.SAFETY : CommandPriority.NORMAL);
+
+    if (signal?.aborted) {
+      return Promise.reject(new Error(`Command cancelled: ${command}`));
+    }
+
+    if (priority === CommandPriority.SAFETY) {
+      this.dropMotion(`Cancelled by ${getCommandName(command) || 'safety command'}`);
+      return this.dispatch(command, timeout);
+    }
+
+    return new Promise((resolve, reject) => {
+      const idMatch = command.match(/id\s*=\s*(\d+)/i);
+      const item: QueuedCommand = {
+        id: idMatch?.[1] ? parseInt(idMatch[1]) : null,
+        command,
+        priority,
+        timeout,
+        seq: this.seq++,
+        resolve,
+        reject,
+        detach: () => {}
+      };
+
+      if (signal) {
+        const onAbort = () => this.cancelItem(item, `Command cancelled: ${command}`);
+        signal.addEventListener('abort', onAbort, { once: true });
+        item.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      // Insert after all commands with the same or higher priority
+      const index = this.queue.findIndex(queued => queued.priority > priority);
+      if (index === -1) {
+        this.queue.push(item);
+      } else {
+        this.queue.splice(index, 0, item);
+      }
+
+      this.pump();
+    });
+  }
+
+  /**
+   * Cancel queued or in-flight command by id
+   * An in-flight command keeps its slot until the robot answers or it times out
+   */
+  cancel(id: number): boolean {
+    const item = this.active?.id === id
+      ? this.active
+      : this.queue.find(queued => queued.id === id);
+    if (!item) return false;
+    this.cancelItem(item, `Command cancelled: ${item.command}`);
+    return true;
+  }
+
+  /**
+   * Reject all queued commands
+   */
+  clear(reason: string) {
+    const items = this.queue;
+    this.queue = [];
+    for (const item of items) {
+      item.detach();
+      item.reject(new Error(reason));
+    }
+  }
+
+  private cancelItem(item: QueuedCommand, reason: string) {
+    const index = this.queue.indexOf(item);
+    if (index !== -1) this.queue.splice(index, 1);
+    item.detach();
+    item.reject(new Error(reason));
+  }
+
+  /**
+   * Remove queued motion commands so nothing moves after a stop
+   */
+  private dropMotion(reason: string) {
+    const motion = this.queue.filter(item => isMotionCommand(item.command));
+    if (motion.length === 0) return;
+    this.queue = this.queue.filter(item => !isMotionCommand(item.command));
+    for (const item of motion) {
+      item.detach();
+      item.reject(new Error(reason));
+    }
+  }
+
+  /**
+   * Send next command when the line is free
+   */
+  private pump() {
+    if (this.active) return;
+    const item = this.queue.shift();
+    if (!item) return;
+
+    this.active = item;
+    this.dispatch(item.command, item.timeout)
+      .then(item.resolve, item.reject)
+      .finally(() => {
+        item.detach();
+        this.active = null;
+        this.pump();
+      });
+  }
+}
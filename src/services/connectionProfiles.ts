@@ -0,0 +1,189 @@
+/**
+ * Connection Profiles
+ * Named robot cells (virtual controller, cell 1, cell 2, ...) with everything needed to connect
+ *
+ * - A profile holds the proxy URL, robot IP, protocol, both robot ports, the TCP string
+ *   encoding and the Modbus polling / heartbeat settings
+ * - The built-in profiles come from the VITE_* environment and the virtual controller defaults
+ * - Profiles are exported/imported as JSON (robotService keeps them in localStorage)
+ */
+
+import { DEFAULT_HEARTBEAT_INTERVAL } from './modbusHeartbeat';
+import { DEFAULT_POLL_INTERVALS, type PollIntervals } from './modbusPoller';
+import { RegisterGroup } from './modbusRegisterMap';
+
+export const PROFILES_FILE_VERSION = 1;
+
+// Protocol spoken on the proxy -> robot link (same ids as the proxy STATUS)
+export const RobotLinkProtocol = {
+  MODBUS_TCP: 'MODBUS_TCP',
+  TCP_STRING: 'TCP_STRING'
+} as const;
+export type RobotLinkProtocol = typeof RobotLinkProtocol[keyof typeof RobotLinkProtocol];
+
+// Character encoding of TCP string frames; auto lets the proxy detect it
+export const RobotEncoding = {
+  AUTO: 'auto',
+  UTF8: 'utf8',
+  UTF16LE: 'utf16le',
+  GBK: 'gbk'
+} as const;
+export type RobotEncoding = typeof RobotEncoding[keyof typeof RobotEncoding];
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  proxyUrl: string;                // ws://host:port of server/index.js
+  robotIp: string;
+  protocol: RobotLinkProtocol;
+  modbusPort: number;              // Used when protocol is MODBUS_TCP
+  tcpPort: number;                 // Used when protocol is TCP_STRING
+  encoding: RobotEncoding;
+  pollIntervals: PollIntervals;    // ms per register group, 0 = off
+  heartbeatInterval: number;       // ms between master heartbeat writes
+}
+
+// Content of a profiles file
+export interface ProfilesFile {
+  version: number;
+  exportedAt: string;              // ISO timestamp
+  profiles: ConnectionProfile[];
+}
+
+export const ENVIRONMENT_PROFILE_ID = 'env';
+export const VIRTUAL_PROFILE_ID = 'virtual';
+
+/**
+ * Robot port the profile connects to
+ */
+export const profilePort = (profile: ConnectionProfile): number =>
+  profile.protocol === RobotLinkProtocol.MODBUS_TCP ? profile.modbusPort : profile.tcpPort;
+
+/**
+ * New profile id, unique among existing
+ */
+export function createProfileId(name: string, existing: string[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+  let id = base;
+  for (let n = 2; existing.includes(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * Profiles available before the user adds any: the VITE_* environment and the virtual controller
+ */
+export function builtInProfiles(): ConnectionProfile[] {
+  const env = import.meta.env;
+  const modbusPort = Number(env.VITE_ROBOT_PORT_MODBUS) || 1502;
+  const tcpPort = Number(env.VITE_ROBOT_PORT_TCP) || 5000;
+  const activePort = Number(env.VITE_ROBOT_PORT) || modbusPort;
+  const shared = {
+    proxyUrl: env.VITE_PROXY_URL || 'ws://localhost:3000',
+    encoding: RobotEncoding.AUTO,
+    pollIntervals: { ...DEFAULT_POLL_INTERVALS },
+    heartbeatInterval: Number(env.VITE_MODBUS_HEARTBEAT_INTERVAL) || DEFAULT_HEARTBEAT_INTERVAL
+  };
+
+  return [
+    {
+      ...shared,
+      id: ENVIRONMENT_PROFILE_ID,
+      name: 'Environment (.env)',
+      robotIp: env.VITE_ROBOT_IP || '192.168.1.100',
+      protocol: activePort === tcpPort ? RobotLinkProtocol.TCP_STRING : RobotLinkProtocol.MODBUS_TCP,
+      modbusPort,
+      tcpPort
+    },
+    {
+      ...shared,
+      id: VIRTUAL_PROFILE_ID,
+      name: 'Virtual controller',
+      robotIp: '127.0.0.1',
+      protocol: RobotLinkProtocol.MODBUS_TCP,
+      modbusPort: 1502,
+      tcpPort: 5000
+    }
+  ];
+}
+
+const isPort = (value: unknown) => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 65535;
+const isOneOf = (options: Record<string, string>, value: unknown) =>
+  Object.values(options).includes(value as string);
+
+/**
+ * Check a profile read from storage or a file, returns a clean copy or throws
+ */
+export function validateProfile(data: any, label: string = 'profile'): ConnectionProfile {
+  if (!data || typeof data !== 'object') {
+    throw new Error(`Invalid ${label}: not an object`);
+  }
+  const fail = (field: string) => {
+    throw new Error(`Invalid ${label}: ${field} = ${JSON.stringify(data[field])}`);
+  };
+
+  if (typeof data.id !== 'string' || !data.id) fail('id');
+  if (typeof data.name !== 'string' || !data.name.trim()) fail('name');
+  if (typeof data.proxyUrl !== 'string' || !/^wss?:\/\//.test(data.proxyUrl)) fail('proxyUrl');
+  if (typeof data.robotIp !== 'string' || !data.robotIp.trim()) fail('robotIp');
+  if (!isOneOf(RobotLinkProtocol, data.protocol)) fail('protocol');
+  if (!isPort(data.modbusPort)) fail('modbusPort');
+  if (!isPort(data.tcpPort)) fail('tcpPort');
+  if (!isOneOf(RobotEncoding, data.encoding)) fail('encoding');
+  if (!(typeof data.heartbeatInterval === 'number' && data.heartbeatInterval >= 100)) fail('heartbeatInterval');
+
+  const intervals = data.pollIntervals ?? {};
+  const pollIntervals: PollIntervals = {};
+  for (const group of Object.values(RegisterGroup)) {
+    const interval = intervals[group];
+    if (interval === undefined) continue;
+    if (typeof interval !== 'number' || interval < 0) fail('pollIntervals');
+    pollIntervals[group] = interval;
+  }
+
+  return {
+    id: data.id,
+    name: data.name.trim(),
+    proxyUrl: data.proxyUrl,
+    robotIp: data.robotIp.trim(),
+    protocol: data.protocol,
+    modbusPort: data.modbusPort,
+    tcpPort: data.tcpPort,
+    encoding: data.encoding,
+    pollIntervals,
+    heartbeatInterval: data.heartbeatInterval
+  };
+}
+
+export function serializeProfiles(profiles: ConnectionProfile[]): string {
+  const file: ProfilesFile = {
+    version: PROFILES_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse a profiles file, throws Error describing the first problem
+ */
+export function parseProfiles(text: string): ConnectionProfile[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid profiles file: ${(error as Error).message}`);
+  }
+
+  if (!data || data.version !== PROFILES_FILE_VERSION || !Array.isArray(data.profiles) || data.profiles.length === 0) {
+    throw new Error(`Invalid profiles file: expected version ${PROFILES_FILE_VERSION} with profiles`);
+  }
+
+  const profiles = data.profiles.map((entry: any, i: number) => validateProfile(entry, `profile ${i}`));
+  const ids = new Set(profiles.map((profile: ConnectionProfile) => profile.id));
+  if (ids.size !== profiles.length) {
+    throw new Error('Invalid profiles file: duplicate profile ids');
+  }
+  return profiles;
+}
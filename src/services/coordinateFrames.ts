@@ -0,0 +1,64 @@
+/**
+ * Coordinate Frames
+ * TOOL and USERCOORD variables (GetVarV3 / SetVarV3 type 8 and 9) and poses relative to them
+ *
+ * - The controller has no command listing variables, frames are found by reading the
+ *   standard names TOOL0, TOOL1 ... and USERCOOR0, USERCOOR1 ...
+ * - SetVarV3 takes the frame as "x_y_z_a_b_c", GetVarV3 answers "id x y z a b c ..."
+ * - The controller reports the TCP of the active tool in the base (world) frame; a pose can be
+ *   shown in a user frame or for another tool (same flange)
+ */
+
+import { VarType, type ToolData, type UserCoordData } from './robotProtocol';
+import { invertRigid, matrixToPose, multiply, poseToMatrix, IDENTITY_POSE, type Pose } from './poseMath';
+
+export type FrameType = typeof VarType.TOOL | typeof VarType.USERCOORD;
+
+// Frames read when listing (names 0 .. FRAME_SLOTS - 1)
+export const FRAME_SLOTS = 16;
+
+const FRAME_PREFIX: Record<FrameType, string> = {
+  [VarType.TOOL]: 'TOOL',
+  [VarType.USERCOORD]: 'USERCOOR'
+};
+
+export interface CoordinateFrame {
+  type: FrameType;
+  name: string;
+  id: number;
+  pose: Pose;                      // Tool: TCP in the flange, user frame: origin in the base frame
+}
+
+export const frameName = (type: FrameType, index: number): string => `${FRAME_PREFIX[type]}${index}`;
+
+export const frameLabel = (type: FrameType): string => (type === VarType.TOOL ? 'Tool' : 'User frame');
+
+export function toFrame(type: FrameType, name: string, { id, x, y, z, a, b, c }: ToolData | UserCoordData): CoordinateFrame {
+  return { type, name, id, pose: { x, y, z, a, b, c } };
+}
+
+/**
+ * SetVarV3 value of a frame
+ */
+export function formatFrameValue({ x, y, z, a, b, c }: Pose): string {
+  const values = [x, y, z, a, b, c];
+  if (!values.every(Number.isFinite)) {
+    throw new Error(`Invalid frame: ${values.join(', ')}`);
+  }
+  return values.map((value) => value.toFixed(3)).join('_');
+}
+
+/**
+ * Base-frame TCP pose expressed in a user frame
+ */
+export function poseInUserFrame(pose: Pose, userFrame: Pose = IDENTITY_POSE): Pose {
+  return matrixToPose(multiply(invertRigid(poseToMatrix(userFrame)), poseToMatrix(pose)));
+}
+
+/**
+ * TCP pose of another tool on the same flange (pose is the TCP of activeTool)
+ */
+export function poseWithTool(pose: Pose, activeTool: Pose, tool: Pose): Pose {
+  const flange = multiply(poseToMatrix(pose), invertRigid(poseToMatrix(activeTool)));
+  return matrixToPose(multiply(flange, poseToMatrix(tool)));
+}
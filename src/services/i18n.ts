@@ -19,12 +19,21 @@ const translations: Record<Language, Record<string, string>> = {
     'header.net': 'NET',
     'header.online': 'ONLINE',
     'header.ping': 'PING',
+    'header.reconnecting': 'RECONNECTING',
 
     // RobotStatus
     'status.title': 'ROBOT STATE',
     'status.connected': 'CONNECTED',
     'status.offline': 'OFFLINE',
+    'status.linkAlarm': 'LINK ALARM',
+    'status.control': 'CONTROL',
+    'status.observer': 'OBSERVER',
+    'status.requestControl': 'REQUEST CONTROL',
+    'status.controlRequested': 'REQUESTED',
+    'status.releaseControl': 'RELEASE',
+    'status.handOver': 'HAND OVER',
     'status.cartesian': 'CARTESIAN [mm]',
+    'status.loadFrames': 'LOAD FRAMES',
     'status.joints': 'JOINTS [deg]',
     'status.temp': 'TEMP',
     'status.load': 'LOAD',
@@ -81,11 +90,20 @@ const translations: Record<Language, Record<string, string>> = {
     'header.net': 'СЕТЬ',
     'header.online': 'ОНЛАЙН',
     'header.ping': 'ПИНГ',
+    'header.reconnecting': 'ПЕРЕПОДКЛЮЧЕНИЕ',
 
     'status.title': 'СОСТОЯНИЕ РОБОТА',
     'status.connected': 'ПОДКЛЮЧЕНО',
     'status.offline': 'ОФФЛАЙН',
+    'status.linkAlarm': 'СБОЙ СВЯЗИ',
+    'status.control': 'УПРАВЛЕНИЕ',
+    'status.observer': 'НАБЛЮДАТЕЛЬ',
+    'status.requestControl': 'ЗАПРОСИТЬ УПРАВЛЕНИЕ',
+    'status.controlRequested': 'ЗАПРОШЕНО',
+    'status.releaseControl': 'ОСВОБОДИТЬ',
+    'status.handOver': 'ПЕРЕДАТЬ',
     'status.cartesian': 'ДЕКАРТОВЫ [мм]',
+    'status.loadFrames': 'ЗАГРУЗИТЬ СК',
     'status.joints': 'ОСИ / СУСТАВЫ [град]',
     'status.temp': 'ТЕМП',
     'status.load': 'НАГРУЗКА',
@@ -139,11 +157,20 @@ const translations: Record<Language, Record<string, string>> = {
     'header.net': '网络',
     'header.online': '在线',
     'header.ping': '延迟',
+    'header.reconnecting': '重新连接',
 
     'status.title': '机器人状态',
     'status.connected': '已连接',
     'status.offline': '离线',
+    'status.linkAlarm': '通信故障',
+    'status.control': '控制',
+    'status.observer': '观察',
+    'status.requestControl': '请求控制',
+    'status.controlRequested': '已请求',
+    'status.releaseControl': '释放',
+    'status.handOver': '移交',
     'status.cartesian': '笛卡尔坐标 [mm]',
+    'status.loadFrames': '读取坐标系',
     'status.joints': '关节角度 [deg]',
     'status.temp': '温度',
     'status.load': '负载',
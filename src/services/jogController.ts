@@ -0,0 +1,140 @@
+/**
+ * Jog Controller
+ * Press-and-hold jogging over JogMotion_IFace with deadman semantics (Section 3.25, 3.27-3.28)
+ *
+ * - start(axis, direction) selects the coordinate type (SetCoordType_IFace) when it changed,
+ *   then sends JogMotion_IFace; the robot keeps moving until JogMotionStop_IFace
+ * - stop() always sends JogMotionStop_IFace, also while the start is still on its way,
+ *   so a release can never be lost behind a slow start
+ * - While a jog is held, a keep-alive goes to the proxy; the proxy stops the jog itself when
+ *   keep-alives stop (JOG_WATCHDOG_TIMEOUT), e.g. when the WebSocket drops
+ */
+
+import { CommandBuilder, CoordType } from './robotProtocol';
+import { JOG_WATCHDOG_TIMEOUT } from '../../shared/proxyMessages';
+
+// Keep-alives per watchdog period, so a single late one does not stop the jog
+export const JOG_KEEPALIVE_INTERVAL = JOG_WATCHDOG_TIMEOUT / 4;
+
+export type JogDirection = 1 | -1;
+
+export interface JogState {
+  active: boolean;                 // A jog is held (start sent or on its way)
+  axis: number | null;             // 1..6: joint, or X Y Z A B C in a Cartesian frame
+  direction: JogDirection | null;
+  coordType: CoordType;            // Frame of the next jog
+}
+
+export interface JogIO {
+  send: (command: string) => Promise<boolean>;  // Resolves true on [id = X; Ok]
+  keepAlive: () => boolean;                     // JOG_KEEPALIVE, false if it could not be sent
+}
+
+export class JogController {
+  private io: JogIO;
+  private onState: (state: JogState) => void;
+  private keepAliveInterval: number;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  private appliedCoordType: CoordType | null = null;  // Last frame the robot confirmed
+  private press: number = 0;                          // Incremented by every start and stop
+  private state: JogState = { active: false, axis: null, direction: null, coordType: CoordType.JOINT };
+
+  constructor(io: JogIO, onState: (state: JogState) => void, keepAliveInterval: number = JOG_KEEPALIVE_INTERVAL) {
+    this.io = io;
+    this.onState = onState;
+    this.keepAliveInterval = keepAliveInterval;
+  }
+
+  get active(): boolean {
+    return this.state.active;
+  }
+
+  /**
+   * Frame for the following jogs (applied on the next start)
+   */
+  setCoordType(coordType: CoordType) {
+    this.update({ coordType });
+  }
+
+  /**
+   * Start jogging axis in direction, resolves false if the robot refused or the press
+   * was released before the jog started
+   */
+  async start(axis: number, direction: JogDirection): Promise<boolean> {
+    if (this.state.active) {
+      if (this.state.axis === axis && this.state.direction === direction) return true;
+      await this.stop();
+    }
+
+    // Throws CommandArgumentError for an axis outside 1..6 before anything is sent
+    const jogCommand = CommandBuilder.jogMotion(axis, direction);
+    const press = ++this.press;
+    this.update({ active: true, axis, direction });
+    this.startKeepAlive();
+
+    const { coordType } = this.state;
+    if (this.appliedCoordType !== coordType) {
+      const applied = await this.io.send(CommandBuilder.setCoordType(coordType));
+      if (press !== this.press) return false;
+      if (!applied) {
+        this.release();
+        throw new Error(`SetCoordType_IFace(${coordType}) refused, jog not started`);
+      }
+      this.appliedCoordType = coordType;
+    }
+
+    const started = await this.io.send(jogCommand);
+    if (press !== this.press) return false;
+    if (!started) {
+      this.release();
+      throw new Error(`JogMotion_IFace(${axis},${direction}) refused (servo off or not in manual mode?)`);
+    }
+    return true;
+  }
+
+  /**
+   * Stop the held jog (release, blur, tab hidden ...); nothing is sent when no jog is held
+   */
+  async stop(): Promise<boolean> {
+    if (!this.state.active) return true;
+    this.press++;
+    this.release();
+    return this.io.send(CommandBuilder.jogMotionStop());
+  }
+
+  /**
+   * Forget the jog without sending anything (link already lost, the proxy stops the robot)
+   */
+  reset() {
+    this.press++;
+    this.appliedCoordType = null;
+    this.release();
+  }
+
+  private release() {
+    this.stopKeepAlive();
+    this.update({ active: false, axis: null, direction: null });
+  }
+
+  private startKeepAlive() {
+    this.stopKeepAlive();
+    this.keepAliveTimer = setInterval(() => {
+      if (!this.io.keepAlive()) {
+        // No link to the proxy: its watchdog stops the robot
+        this.reset();
+      }
+    }, this.keepAliveInterval);
+  }
+
+  private stopKeepAlive() {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+
+  private update(changes: Partial<JogState>) {
+    this.state = { ...this.state, ...changes };
+    this.onState({ ...this.state });
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Modbus Command Executor
+ * Runs control commands through the 40051/40052 handshake and checks the result in 40018
+ *
+ * 1. 40018 must report "waiting for command" (a leftover command is cleared once)
+ * 2. Write command flag 0x11 to 40051, the operand (global speed in 40053) if any,
+ *    then the command to 40052
+ * 3. Poll 40018 until the command completes (its OK bit set) or fails
+ * 4. Clear 40052 so the controller is ready for the next command
+ *
+ * RESET_STATE_MACHINE skips step 1 and completes once 40018 waits for a command again,
+ * it is the way out of a failed command.
+ *
+ * Commands run one at a time. See docs/modbus/ESTUN_MODBUS_FULL_MAP.md
+ */
+
+// 0-based addresses
+export const COMMAND_STATUS_ADDRESS = 17;  // 40018
+export const COMMAND_FLAG_ADDRESS = 50;    // 40051
+export const COMMAND_ADDRESS = 51;         // 40052
+export const GLOBAL_SPEED_ADDRESS = 52;    // 40053, operand of SET_GLOBAL_SPEED (0-100%)
+
+// Value of 40051 that enables command mode
+export const COMMAND_FLAG = 0x11;
+
+// Values of 40052; the OK bit in 40018 has the same position
+export const ModbusCommand = {
+  EMERGENCY_STOP: 0x02,
+  START: 0x04,
+  STOP: 0x08,
+  RESET: 0x10,
+  ENABLE_UP: 0x20,
+  ENABLE_DOWN: 0x40,
+  LOAD_PROJECT: 0x80,
+  LOGOUT_PROJECT: 0x100,
+  SET_GLOBAL_SPEED: 0x200,
+  RESET_STATE_MACHINE: 0x400
+} as const;
+export type ModbusCommand = typeof ModbusCommand[keyof typeof ModbusCommand];
+
+/**
+ * Command Status Register Bits (Register 40018 / MBDataBuffer[18])
+ */
+export interface CommandStatusRegister {
+  commandIsZero: boolean;         // bit0
+  emergencyStopOK: boolean;       // bit1
+  startCommandOK: boolean;        // bit2
+  stopCommandOK: boolean;         // bit3
+  resetCommandOK: boolean;        // bit4
+  enableUpCommandOK: boolean;     // bit5
+  enableDownCommandOK: boolean;   // bit6
+  loadProjectOK: boolean;         // bit7
+  logoutProjectOK: boolean;       // bit8
+  setGlobalSpeedOK: boolean;      // bit9
+  waitingForControl: boolean;     // bit10
+  waitingForCommand: boolean;     // bit11
+  commandExecutionComplete: boolean;  // bit12
+  commandExecutionError: boolean;     // bit13
+}
+
+/**
+ * Parse Command Status Register (40018)
+ *
+ * Register bits for command execution feedback
+ */
+export function parseCommandStatusRegister(value: number): CommandStatusRegister {
+  return {
+    commandIsZero: (value & 0x01) !== 0,
+    emergencyStopOK: (value & 0x02) !== 0,
+    startCommandOK: (value & 0x04) !== 0,
+    stopCommandOK: (value & 0x08) !== 0,
+    resetCommandOK: (value & 0x10) !== 0,
+    enableUpCommandOK: (value & 0x20) !== 0,
+    enableDownCommandOK: (value & 0x40) !== 0,
+    loadProjectOK: (value & 0x80) !== 0,
+    logoutProjectOK: (value & 0x100) !== 0,
+    setGlobalSpeedOK: (value & 0x200) !== 0,
+    waitingForControl: (value & 0x400) !== 0,
+    waitingForCommand: (value & 0x800) !== 0,
+    commandExecutionComplete: (value & 0x1000) !== 0,
+    commandExecutionError: (value & 0x2000) !== 0
+  };
+}
+
+/**
+ * Command name for logs and errors
+ * 0x04 -> START
+ */
+export function getModbusCommandName(command: number): string {
+  const entry = Object.entries(ModbusCommand).find(([, value]) => value === command);
+  return entry?.[0] ?? `0x${command.toString(16)}`;
+}
+
+// Register access used by the executor (acknowledged write, fresh read)
+export interface CommandRegisterIO {
+  write(address: number, value: number): Promise<void>;
+  readStatus(): Promise<number>;
+}
+
+// Register written between the command flag and the command
+export interface CommandOperand {
+  address: number;
+  value: number;
+}
+
+export interface CommandExecutorOptions {
+  timeout?: number;        // ms until the command must have completed
+  pollInterval?: number;   // ms between reads of 40018
+}
+
+export const DEFAULT_COMMAND_TIMEOUT = 3000;
+export const DEFAULT_COMMAND_POLL_INTERVAL = 100;
+
+// Result of a successful command
+export interface CommandResult {
+  command: ModbusCommand;
+  status: CommandStatusRegister;
+  raw: number;             // 40018 when the command completed
+  duration: number;        // ms
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const hex = (value: number) => `0x${value.toString(16).padStart(4, '0')}`;
+
+export class ModbusCommandExecutor {
+  private io: CommandRegisterIO;
+  private timeout: number;
+  private pollInterval: number;
+  private chain: Promise<unknown> = Promise.resolve();
+  private running: boolean = false;
+
+  constructor(io: CommandRegisterIO, options: CommandExecutorOptions = {}) {
+    this.io = io;
+    this.timeout = options.timeout ?? DEFAULT_COMMAND_TIMEOUT;
+    this.pollInterval = options.pollInterval ?? DEFAULT_COMMAND_POLL_INTERVAL;
+  }
+
+  get busy(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Run command, queued behind the one in progress
+   * Rejects with the reason when the controller refuses or reports an error
+   */
+  execute(command: ModbusCommand, operand?: CommandOperand): Promise<CommandResult> {
+    const run = this.chain.then(() => this.run(command, operand));
+    // Keep the chain alive after a failed command
+    this.chain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async run(command: ModbusCommand, operand?: CommandOperand): Promise<CommandResult> {
+    const name = getModbusCommandName(command);
+    const reset = command === ModbusCommand.RESET_STATE_MACHINE;
+    const startTime = Date.now();
+    this.running = true;
+
+    try {
+      if (!reset) await this.waitUntilReady(name);
+
+      await this.io.write(COMMAND_FLAG_ADDRESS, COMMAND_FLAG);
+      if (operand) await this.io.write(operand.address, operand.value);
+      await this.io.write(COMMAND_ADDRESS, command);
+
+      while (true) {
+        await delay(this.pollInterval);
+        const raw = await this.io.readStatus();
+        const status = parseCommandStatusRegister(raw);
+
+        if (reset) {
+          // Error and complete bits may still belong to the command being cleared
+          if (status.waitingForCommand) {
+            return { command, status, raw, duration: Date.now() - startTime };
+          }
+        } else if (status.commandExecutionError) {
+          throw new Error(`${name} failed: controller reported execution error (40018=${hex(raw)})`);
+        } else if (status.commandExecutionComplete) {
+          if ((raw & command) === 0) {
+            throw new Error(`${name} completed without its OK bit (40018=${hex(raw)})`);
+          }
+          return { command, status, raw, duration: Date.now() - startTime };
+        }
+        if (Date.now() - startTime > this.timeout) {
+          throw new Error(`${name} timed out after ${this.timeout}ms (40018=${hex(raw)})`);
+        }
+      }
+    } finally {
+      this.running = false;
+      // Clear the command register for the next command
+      await this.io.write(COMMAND_ADDRESS, 0).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Make sure 40018 reports "waiting for command"
+   */
+  private async waitUntilReady(name: string) {
+    let raw = await this.io.readStatus();
+    if (parseCommandStatusRegister(raw).waitingForCommand) return;
+
+    // A previous command may not have been cleared
+    await this.io.write(COMMAND_ADDRESS, 0);
+    await delay(this.pollInterval);
+    raw = await this.io.readStatus();
+    const status = parseCommandStatusRegister(raw);
+    if (status.waitingForCommand) return;
+
+    const reason = status.commandExecutionError
+      ? 'previous command failed, reset the state machine'
+      : status.waitingForControl
+        ? 'controller is waiting for control (remote mode?)'
+        : 'controller is not waiting for a command';
+    throw new Error(`${name} refused: ${reason} (40018=${hex(raw)})`);
+  }
+}
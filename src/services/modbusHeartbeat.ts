@@ -0,0 +1,131 @@
+/**
+ * Modbus Heartbeat
+ * Keeps the controller's master heartbeat (40001) alive while Modbus TCP is connected
+ *
+ * - Writes a counter 1..65535 (wrapping back to 1) every interval
+ * - Every write must be acknowledged (REGISTER_WRITTEN with its requestId) before the next one is due
+ * - maxMissed unacknowledged writes, or a failed write, raise the health alarm
+ * - The next acknowledged write clears it again
+ *
+ * See docs/modbus/ESTUN_MODBUS_FULL_MAP.md (Heartbeat)
+ */
+
+// 40001 (0-based address 0)
+export const HEARTBEAT_ADDRESS = 0;
+export const HEARTBEAT_MAX_VALUE = 65535;
+
+export const DEFAULT_HEARTBEAT_INTERVAL = 1000;
+export const DEFAULT_HEARTBEAT_MAX_MISSED = 3;
+
+export interface HeartbeatOptions {
+  interval?: number;    // ms between writes
+  maxMissed?: number;   // Unacknowledged writes before the alarm is raised
+}
+
+export interface HeartbeatHealth {
+  active: boolean;
+  value: number;               // Last value written
+  missed: number;              // Writes without acknowledgment in a row
+  lastAckAt: number | null;    // epoch ms
+  alarm: string | null;        // Reason while the link is unhealthy
+}
+
+// Sends one WRITE_REGISTER request, returns its requestId (null if it could not be sent)
+export type HeartbeatWriter = (address: number, value: number) => number | null;
+
+export class ModbusHeartbeat {
+  private write: HeartbeatWriter;
+  private onHealth: (health: HeartbeatHealth) => void;
+  private interval: number;
+  private maxMissed: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pendingRequestId: number | null = null; // Write awaiting its acknowledgment
+  private health: HeartbeatHealth = ModbusHeartbeat.idle();
+
+  constructor(
+    write: HeartbeatWriter,
+    onHealth: (health: HeartbeatHealth) => void,
+    options: HeartbeatOptions = {}
+  ) {
+    this.write = write;
+    this.onHealth = onHealth;
+    this.interval = options.interval ?? DEFAULT_HEARTBEAT_INTERVAL;
+    this.maxMissed = options.maxMissed ?? DEFAULT_HEARTBEAT_MAX_MISSED;
+  }
+
+  private static idle(): HeartbeatHealth {
+    return { active: false, value: 0, missed: 0, lastAckAt: null, alarm: null };
+  }
+
+  get active(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Start writing (first beat is sent right away)
+   */
+  start() {
+    this.stop();
+    this.health = { ...ModbusHeartbeat.idle(), active: true };
+    this.timer = setInterval(() => this.beat(), this.interval);
+    this.beat();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.pendingRequestId = null;
+    this.update(ModbusHeartbeat.idle());
+  }
+
+  /**
+   * Change the write interval (a running heartbeat restarts with it)
+   */
+  setInterval(interval: number) {
+    this.interval = interval;
+    if (this.active) {
+      this.start();
+    }
+  }
+
+  /**
+   * A register write was acknowledged by the proxy (only the pending beat counts)
+   */
+  handleAck(requestId: number) {
+    if (requestId !== this.pendingRequestId || !this.active) return;
+    this.pendingRequestId = null;
+    this.update({ ...this.health, missed: 0, lastAckAt: Date.now(), alarm: null });
+  }
+
+  /**
+   * A register request failed (only the pending beat counts)
+   */
+  handleError(requestId: number, message: string) {
+    if (requestId !== this.pendingRequestId || !this.active) return;
+    this.pendingRequestId = null;
+    this.update({ ...this.health, alarm: `Heartbeat write failed: ${message}` });
+  }
+
+  private beat() {
+    // Previous beat unanswered
+    let missed = this.health.missed;
+    if (this.pendingRequestId !== null) missed++;
+
+    const value = (this.health.value % HEARTBEAT_MAX_VALUE) + 1;
+    this.pendingRequestId = this.write(HEARTBEAT_ADDRESS, value);
+    if (this.pendingRequestId === null) missed++;
+
+    let alarm = this.health.alarm;
+    if (missed >= this.maxMissed && !alarm) {
+      alarm = `No heartbeat acknowledgment for ${missed} cycles`;
+    }
+    this.update({ ...this.health, value, missed, alarm });
+  }
+
+  private update(health: HeartbeatHealth) {
+    this.health = health;
+    this.onHealth({ ...health });
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Modbus Poller
+ * Polls register map groups at individual rates
+ *
+ * - Each group has its own interval (0 = not polled)
+ * - Groups due at the same time are merged into as few reads as possible
+ * - A range is not requested again while its previous read is unanswered
+ * - pause() / resume() nest, so overlapping scans keep polling paused
+ */
+
+import {
+  RegisterGroup,
+  groupRange,
+  mergeRanges,
+  type RegisterRange
+} from './modbusRegisterMap';
+
+// Poll intervals in ms per group
+export type PollIntervals = Partial<Record<RegisterGroup, number>>;
+
+export const DEFAULT_POLL_INTERVALS: PollIntervals = {
+  [RegisterGroup.POSITION]: 200,
+  [RegisterGroup.JOINTS]: 200,
+  [RegisterGroup.STATUS]: 500,
+  [RegisterGroup.COMMAND_STATUS]: 200,
+  [RegisterGroup.DO_BANKS]: 1000
+};
+
+// Unanswered reads are requested again after this time
+const READ_TIMEOUT = 1000;
+
+// Sends one READ_REGISTER request
+export type RegisterReader = (range: RegisterRange) => void;
+
+export class ModbusPoller {
+  private read: RegisterReader;
+  private intervals: PollIntervals;
+  private lastPoll = new Map<RegisterGroup, number>();
+  private inFlight = new Map<number, number>(); // address -> sent at
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: boolean = false;
+  private pauseCount: number = 0;
+
+  constructor(read: RegisterReader, intervals: PollIntervals = DEFAULT_POLL_INTERVALS) {
+    this.read = read;
+    this.intervals = { ...intervals };
+  }
+
+  get active(): boolean {
+    return this.running;
+  }
+
+  get paused(): boolean {
+    return this.pauseCount > 0;
+  }
+
+  /**
+   * Start polling (all enabled groups are read right away)
+   */
+  start() {
+    this.stop();
+    this.running = true;
+    this.schedule();
+  }
+
+  stop() {
+    this.running = false;
+    this.clearTimer();
+    this.lastPoll.clear();
+    this.inFlight.clear();
+  }
+
+  /**
+   * Suspend polling, e.g. while a register scan owns the connection
+   */
+  pause() {
+    this.pauseCount++;
+    this.clearTimer();
+  }
+
+  resume() {
+    if (this.pauseCount === 0) return;
+    this.pauseCount--;
+    if (this.pauseCount === 0) {
+      // Answers to reads sent before the pause may have been consumed by the scan
+      this.inFlight.clear();
+      this.schedule();
+    }
+  }
+
+  /**
+   * Change the interval of a group (0 disables it)
+   */
+  setInterval(group: RegisterGroup, interval: number) {
+    this.intervals[group] = Math.max(0, interval);
+    if (this.running && !this.paused) {
+      this.clearTimer();
+      this.schedule();
+    }
+  }
+
+  getIntervals(): PollIntervals {
+    return { ...this.intervals };
+  }
+
+  /**
+   * Register data arrived for a block read from address
+   */
+  handleData(address: number) {
+    this.inFlight.delete(address);
+  }
+
+  private enabledGroups(): RegisterGroup[] {
+    return Object.values(RegisterGroup).filter(group => (this.intervals[group] ?? 0) > 0);
+  }
+
+  private schedule() {
+    if (!this.running || this.paused || this.timer) return;
+    const groups = this.enabledGroups();
+    if (groups.length === 0) return;
+
+    const next = Math.min(
+      ...groups.map(group => (this.lastPoll.get(group) ?? 0) + (this.intervals[group] ?? 0))
+    );
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.poll();
+      this.schedule();
+    }, Math.max(0, next - Date.now()));
+  }
+
+  private poll() {
+    const now = Date.now();
+    const due = this.enabledGroups().filter(
+      group => now - (this.lastPoll.get(group) ?? 0) >= (this.intervals[group] ?? 0)
+    );
+    due.forEach(group => this.lastPoll.set(group, now));
+
+    for (const range of mergeRanges(due.map(groupRange))) {
+      const sentAt = this.inFlight.get(range.address);
+      if (sentAt !== undefined && now - sentAt < READ_TIMEOUT) continue;
+      this.inFlight.set(range.address, now);
+      this.read(range);
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
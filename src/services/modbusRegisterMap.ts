@@ -0,0 +1,268 @@
+/**
+ * Modbus Register Map
+ * Declarative layout of the ERC3-C1 holding registers (port 1502)
+ *
+ * - Addresses are 0-based protocol addresses (register 40001 = address 0)
+ * - Every field belongs to a named group; reads are planned per group
+ * - REGISTER_DATA is decoded by the address it was requested for,
+ *   never guessed from the magnitude of the values
+ *
+ * See docs/MODBUS_REGISTER_MAP.md for how the layout was discovered.
+ */
+
+// How the raw registers of a field are interpreted
+export const RegisterType = {
+  NUMBER: 'number',  // Numeric value, raw / scale
+  BITS: 'bits',      // Bit field, raw value (see parseRobotStatusRegister / parseCommandStatusRegister)
+  STRING: 'string'   // ASCII, two characters per register
+} as const;
+export type RegisterType = typeof RegisterType[keyof typeof RegisterType];
+
+// Binary layout of a numeric field
+export const DataType = {
+  INT16: 'int16',
+  UINT16: 'uint16',
+  INT32: 'int32',
+  UINT32: 'uint32',
+  FLOAT32: 'float32'   // IEEE 754 single precision
+} as const;
+export type DataType = typeof DataType[keyof typeof DataType];
+
+// Order of the two registers of a 32-bit value
+export const WordOrder = {
+  LOW_FIRST: 'lowFirst',    // Low word at the lower address (ERC3-C1 position)
+  HIGH_FIRST: 'highFirst'   // High word at the lower address (Modbus "big endian")
+} as const;
+export type WordOrder = typeof WordOrder[keyof typeof WordOrder];
+
+// Registers occupied by each data type
+export const DATA_TYPE_REGISTERS: Record<DataType, number> = {
+  [DataType.INT16]: 1,
+  [DataType.UINT16]: 1,
+  [DataType.INT32]: 2,
+  [DataType.UINT32]: 2,
+  [DataType.FLOAT32]: 2
+};
+
+// Register groups (unit of reading)
+export const RegisterGroup = {
+  SPEED: 'speed',                    // 40002
+  STATUS: 'status',                  // 40004
+  PROJECT_NAME: 'projectName',       // 40005-40013
+  DO_BANKS: 'doBanks',               // 40014-40017
+  COMMAND_STATUS: 'commandStatus',   // 40018
+  POSITION: 'position',              // Address 100-111
+  JOINTS: 'joints'                   // Address 200-205
+} as const;
+export type RegisterGroup = typeof RegisterGroup[keyof typeof RegisterGroup];
+
+export interface RegisterField {
+  field: string;           // Semantic name
+  group: RegisterGroup;
+  address: number;         // First register (0-based)
+  length: number;          // Number of registers
+  type: RegisterType;
+  dataType?: DataType;     // Binary layout of NUMBER fields (default uint16)
+  wordOrder?: WordOrder;   // 32-bit data types only (default low word first)
+  scale: number;           // Engineering value = raw / scale
+}
+
+/**
+ * Known registers
+ * Position is int32 (low word first) and joints are int16, both scaled by 100:
+ * the zero registers at 101/103/... are the high words, and joint values like
+ * 48152 are negative angles (-173.84°) rather than 481.52°
+ */
+export const REGISTER_MAP = [
+  { field: 'globalSpeed', group: RegisterGroup.SPEED, address: 1, length: 1, type: RegisterType.NUMBER, scale: 1 },
+  { field: 'statusWord', group: RegisterGroup.STATUS, address: 3, length: 1, type: RegisterType.BITS, scale: 1 },
+  { field: 'projectName', group: RegisterGroup.PROJECT_NAME, address: 4, length: 9, type: RegisterType.STRING, scale: 1 },
+  { field: 'do1_16', group: RegisterGroup.DO_BANKS, address: 13, length: 1, type: RegisterType.BITS, scale: 1 },
+  { field: 'do17_32', group: RegisterGroup.DO_BANKS, address: 14, length: 1, type: RegisterType.BITS, scale: 1 },
+  { field: 'do33_48', group: RegisterGroup.DO_BANKS, address: 15, length: 1, type: RegisterType.BITS, scale: 1 },
+  { field: 'do49_64', group: RegisterGroup.DO_BANKS, address: 16, length: 1, type: RegisterType.BITS, scale: 1 },
+  { field: 'commandStatus', group: RegisterGroup.COMMAND_STATUS, address: 17, length: 1, type: RegisterType.BITS, scale: 1 },
+  { field: 'x', group: RegisterGroup.POSITION, address: 100, length: 2, type: RegisterType.NUMBER, dataType: DataType.INT32, wordOrder: WordOrder.LOW_FIRST, scale: 100 },
+  { field: 'y', group: RegisterGroup.POSITION, address: 102, length: 2, type: RegisterType.NUMBER, dataType: DataType.INT32, wordOrder: WordOrder.LOW_FIRST, scale: 100 },
+  { field: 'z', group: RegisterGroup.POSITION, address: 104, length: 2, type: RegisterType.NUMBER, dataType: DataType.INT32, wordOrder: WordOrder.LOW_FIRST, scale: 100 },
+  { field: 'a', group: RegisterGroup.POSITION, address: 106, length: 2, type: RegisterType.NUMBER, dataType: DataType.INT32, wordOrder: WordOrder.LOW_FIRST, scale: 100 },
+  { field: 'b', group: RegisterGroup.POSITION, address: 108, length: 2, type: RegisterType.NUMBER, dataType: DataType.INT32, wordOrder: WordOrder.LOW_FIRST, scale: 100 },
+  { field: 'c', group: RegisterGroup.POSITION, address: 110, length: 2, type: RegisterType.NUMBER, dataType: DataType.INT32, wordOrder: WordOrder.LOW_FIRST, scale: 100 },
+  { field: 'j1', group: RegisterGroup.JOINTS, address: 200, length: 1, type: RegisterType.NUMBER, dataType: DataType.INT16, scale: 100 },
+  { field: 'j2', group: RegisterGroup.JOINTS, address: 201, length: 1, type: RegisterType.NUMBER, dataType: DataType.INT16, scale: 100 },
+  { field: 'j3', group: RegisterGroup.JOINTS, address: 202, length: 1, type: RegisterType.NUMBER, dataType: DataType.INT16, scale: 100 },
+  { field: 'j4', group: RegisterGroup.JOINTS, address: 203, length: 1, type: RegisterType.NUMBER, dataType: DataType.INT16, scale: 100 },
+  { field: 'j5', group: RegisterGroup.JOINTS, address: 204, length: 1, type: RegisterType.NUMBER, dataType: DataType.INT16, scale: 100 },
+  { field: 'j6', group: RegisterGroup.JOINTS, address: 205, length: 1, type: RegisterType.NUMBER, dataType: DataType.INT16, scale: 100 }
+] as const satisfies readonly RegisterField[];
+
+export type RegisterFieldName = typeof REGISTER_MAP[number]['field'];
+export type RegisterValue = number | string;
+export type DecodedRegisters = Partial<Record<RegisterFieldName, RegisterValue>>;
+
+/**
+ * Robot Status Register Bits (Register 40004 / MBDataBuffer[3])
+ */
+export interface RobotStatusRegister {
+  isManualMode: boolean;      // bit0
+  isAutoMode: boolean;        // bit1
+  isRemoteMode: boolean;      // bit2
+  isServoEnabled: boolean;    // bit3
+  isRunning: boolean;         // bit4
+  hasError: boolean;          // bit5
+  isProgramRunning: boolean;  // bit6
+  isInMotion: boolean;        // bit7
+}
+
+/**
+ * Parse Robot Status Register (40004)
+ *
+ * Register bits:
+ * - bit0: Manual Mode
+ * - bit1: Automatic Mode
+ * - bit2: Remote Operation Mode
+ * - bit3: Enable Status (Servo)
+ * - bit4: Running Status
+ * - bit5: Error Status
+ * - bit6: Program Running Status
+ * - bit7: Robot in Motion
+ */
+export function parseRobotStatusRegister(value: number): RobotStatusRegister {
+  return {
+    isManualMode: (value & 0x01) !== 0,
+    isAutoMode: (value & 0x02) !== 0,
+    isRemoteMode: (value & 0x04) !== 0,
+    isServoEnabled: (value & 0x08) !== 0,
+    isRunning: (value & 0x10) !== 0,
+    hasError: (value & 0x20) !== 0,
+    isProgramRunning: (value & 0x40) !== 0,
+    isInMotion: (value & 0x80) !== 0
+  };
+}
+
+// Most registers a single Read Holding Registers request may return
+export const MAX_READ_COUNT = 125;
+
+// Register range to read
+export interface RegisterRange {
+  address: number;
+  count: number;
+}
+
+/**
+ * Fields of a group
+ */
+export function groupFields(group: RegisterGroup): RegisterField[] {
+  return REGISTER_MAP.filter(field => field.group === group);
+}
+
+/**
+ * Smallest range covering all fields of a group
+ * Position: { address: 100, count: 12 }
+ */
+export function groupRange(group: RegisterGroup): RegisterRange {
+  const fields = groupFields(group);
+  if (fields.length === 0) throw new Error(`Unknown register group: ${group}`);
+  const start = Math.min(...fields.map(field => field.address));
+  const end = Math.max(...fields.map(field => field.address + field.length));
+  return { address: start, count: end - start };
+}
+
+/**
+ * Groups whose registers lie completely inside a block
+ */
+export function coveredGroups(address: number, count: number): RegisterGroup[] {
+  return Object.values(RegisterGroup).filter(group => {
+    const range = groupRange(group);
+    return range.address >= address && range.address + range.count <= address + count;
+  });
+}
+
+/**
+ * Merge overlapping and adjacent ranges into single reads (up to MAX_READ_COUNT)
+ * maxGap: unused registers allowed between two ranges that are still merged
+ * [{100, 12}, {112, 2}, {200, 6}] -> [{100, 14}, {200, 6}]
+ */
+export function mergeRanges(ranges: RegisterRange[], maxGap: number = 0): RegisterRange[] {
+  const sorted = [...ranges].sort((a, b) => a.address - b.address);
+  const merged: RegisterRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    const end = last ? Math.max(last.address + last.count, range.address + range.count) : 0;
+    if (last && range.address <= last.address + last.count + maxGap && end - last.address <= MAX_READ_COUNT) {
+      last.count = end - last.address;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Decode one field from its raw registers
+ */
+export function decodeField(field: RegisterField, raw: number[]): RegisterValue {
+  switch (field.type) {
+    case RegisterType.STRING: {
+      // Low byte first, stops at the first NUL
+      let text = '';
+      for (const word of raw) {
+        for (const byte of [word & 0xFF, (word >> 8) & 0xFF]) {
+          if (byte === 0) return text.trim();
+          text += String.fromCharCode(byte);
+        }
+      }
+      return text.trim();
+    }
+    case RegisterType.BITS:
+      return raw[0] ?? 0;
+    case RegisterType.NUMBER:
+    default:
+      return decodeNumber(raw, field.dataType ?? DataType.UINT16, field.wordOrder) / field.scale;
+  }
+}
+
+/**
+ * Decode raw registers as a number of the given data type (unscaled)
+ * int32 [0xCFC7, 0xFFFF] low word first: -12345
+ */
+export function decodeNumber(
+  raw: number[],
+  dataType: DataType,
+  wordOrder: WordOrder = WordOrder.LOW_FIRST
+): number {
+  const count = DATA_TYPE_REGISTERS[dataType];
+  if (raw.length < count) {
+    throw new Error(`${dataType} needs ${count} registers, got ${raw.length}`);
+  }
+
+  const words = count === 2 && wordOrder === WordOrder.LOW_FIRST ? [raw[1]!, raw[0]!] : raw.slice(0, count);
+  const view = new DataView(new ArrayBuffer(count * 2));
+  words.forEach((word, i) => view.setUint16(i * 2, word & 0xFFFF));
+
+  switch (dataType) {
+    case DataType.INT16: return view.getInt16(0);
+    case DataType.UINT16: return view.getUint16(0);
+    case DataType.INT32: return view.getInt32(0);
+    case DataType.UINT32: return view.getUint32(0);
+    case DataType.FLOAT32: return view.getFloat32(0);
+  }
+}
+
+/**
+ * Decode a block of registers read from `address`
+ * Only fields that lie completely inside the block are returned
+ */
+export function decodeRegisters(
+  address: number,
+  values: number[],
+  fields: readonly RegisterField[] = REGISTER_MAP
+): DecodedRegisters {
+  const decoded: Record<string, RegisterValue> = {};
+  for (const field of fields) {
+    const offset = field.address - address;
+    if (offset < 0 || offset + field.length > values.length) continue;
+    decoded[field.field] = decodeField(field, values.slice(offset, offset + field.length));
+  }
+  return decoded as DecodedRegisters;
+}
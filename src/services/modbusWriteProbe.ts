@@ -0,0 +1,126 @@
+/**
+ * Modbus Write Probe
+ * Finds out whether a holding register is writable without leaving a trace
+ *
+ * 1. Refuse unless 40004 reports servo off and the robot not moving
+ * 2. Read the original value
+ * 3. Write a test value (allow-listed addresses only) and read it back
+ * 4. Write the original value again and verify it
+ *
+ * The status is checked again before every address, so switching the servo
+ * on during a scan stops it at the next register.
+ */
+
+import { parseRobotStatusRegister } from './modbusRegisterMap';
+
+// 40004 (0-based address 3)
+export const ROBOT_STATUS_ADDRESS = 3;
+
+/**
+ * Addresses that may receive a test value
+ * Command registers (40051-40055 = addresses 50-54) and the heartbeat (40001)
+ * are deliberately missing: a test value there is a command to the controller.
+ * Only extend after checking the address in the controller manual.
+ */
+export const WRITE_PROBE_ALLOW_LIST: readonly number[] = [
+  1000, 1001, 1002,
+  2000, 2001, 2002,
+  3000, 3001, 3002,
+  4000, 4001, 4002,
+  5000, 5001, 5002
+];
+
+// Register access used by the probe (acknowledged write, fresh read)
+export interface ProbeRegisterIO {
+  write(address: number, value: number): Promise<void>;
+  read(address: number): Promise<number>;
+}
+
+export interface WriteProbeResult {
+  address: number;
+  original: number;
+  testValue: number;
+  readBack: number | null;   // null = the test write was rejected
+  writable: boolean;
+  restored: boolean;         // Original value had to be written back (and was verified)
+  error?: string;            // Why the test write was rejected
+}
+
+/**
+ * Alternating bit pattern, never equal to the original
+ */
+export function probeTestValue(original: number): number {
+  return original === 0x5A5A ? 0xA5A5 : 0x5A5A;
+}
+
+export class ModbusWriteProbe {
+  private io: ProbeRegisterIO;
+  private allowList: Set<number>;
+
+  constructor(io: ProbeRegisterIO, allowList: readonly number[] = WRITE_PROBE_ALLOW_LIST) {
+    this.io = io;
+    this.allowList = new Set(allowList);
+  }
+
+  isAllowed(address: number): boolean {
+    return this.allowList.has(address);
+  }
+
+  /**
+   * Throws unless the servo is off and the robot is not moving
+   */
+  async checkSafe() {
+    const raw = await this.io.read(ROBOT_STATUS_ADDRESS);
+    const status = parseRobotStatusRegister(raw);
+    if (status.isServoEnabled) {
+      throw new Error('Write probe refused: servo is enabled');
+    }
+    if (status.isInMotion || status.isRunning || status.isProgramRunning) {
+      throw new Error('Write probe refused: robot is moving or running a program');
+    }
+  }
+
+  /**
+   * Probe one address
+   * Throws if the address is not allow-listed, the robot is not safe,
+   * or the original value could not be restored
+   */
+  async probe(address: number): Promise<WriteProbeResult> {
+    if (!this.isAllowed(address)) {
+      throw new Error(`Write probe refused: R${address} is not on the allow-list`);
+    }
+    await this.checkSafe();
+
+    const original = await this.io.read(address);
+    const testValue = probeTestValue(original);
+    const result: WriteProbeResult = {
+      address,
+      original,
+      testValue,
+      readBack: null,
+      writable: false,
+      restored: false
+    };
+
+    try {
+      await this.io.write(address, testValue);
+    } catch (error) {
+      result.error = (error as Error).message;
+    }
+
+    const current = await this.io.read(address);
+    if (result.error === undefined) {
+      result.readBack = current;
+      result.writable = current === testValue;
+    }
+    if (current === original) return result;
+
+    await this.io.write(address, original);
+    const restored = await this.io.read(address);
+    if (restored !== original) {
+      throw new Error(`R${address} could not be restored to ${original} (reads ${restored})`);
+    }
+    result.restored = true;
+    return result;
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Motion Guard
+ * Checks every move target on the client before its frame is sent
+ * (MovePointV3, MoveToSelectPoint_IFace, MoveToSelectPointb_IFace, MoveWithSearch_IFace)
+ *
+ * - Joint limits per axis (read with GetSoftLimits or configured locally)
+ * - Cartesian zones for the TCP: keep-in boxes (target must lie in one of them) and
+ *   keep-out boxes (target must lie in none), base frame, mm
+ * - Largest step from the current position: TCP distance (mm) and joint angle (deg)
+ * - With a robot model (robotKinematics), Cartesian targets are also checked against the joint
+ *   limits (solution in the current configuration) and joint targets against the zones
+ *
+ * The config is exported/imported as JSON (robotService keeps it in localStorage)
+ * RobotTransport runs every move through the check set with setMotionCheck before queueing it
+ */
+
+import type { SoftLimit } from './robotProtocol';
+import { IDENTITY_POSE, type Pose } from './poseMath';
+import { ROBOT_MODELS, RobotKinematics } from './robotKinematics';
+
+export const GUARD_CONFIG_VERSION = 1;
+
+export const ZoneKind = {
+  KEEP_IN: 'keepIn',
+  KEEP_OUT: 'keepOut'
+} as const;
+export type ZoneKind = typeof ZoneKind[keyof typeof ZoneKind];
+
+export const GuardRule = {
+  JOINT_LIMIT: 'JOINT_LIMIT',
+  KEEP_IN: 'KEEP_IN',
+  KEEP_OUT: 'KEEP_OUT',
+  MAX_STEP: 'MAX_STEP',
+  UNREACHABLE: 'UNREACHABLE',
+  UNKNOWN_TARGET: 'UNKNOWN_TARGET'
+} as const;
+export type GuardRule = typeof GuardRule[keyof typeof GuardRule];
+
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface WorkspaceZone {
+  name: string;
+  kind: ZoneKind;
+  min: Point3;                     // mm, base frame
+  max: Point3;
+}
+
+export interface MotionGuardConfig {
+  version: number;
+  jointLimits: SoftLimit[];        // Axes without an entry are not checked
+  zones: WorkspaceZone[];
+  maxStep: {
+    distance: number;              // mm of TCP travel, 0 = unlimited
+    angle: number;                 // deg per joint, 0 = unlimited
+  };
+  modelId: string | null;          // ROBOT_MODELS id, null = no kinematic checks
+}
+
+export interface GuardViolation {
+  rule: GuardRule;
+  message: string;
+}
+
+// Position the step is measured from (read before the move)
+export interface CurrentPosition {
+  joints: number[];
+  pose: Pose;
+}
+
+// Target of a motion frame: pointPos of moveType 1 holds joints, 2 and 3 a world pose
+export type MotionTarget = { joints: number[] } | { pose: Pose };
+
+export const defaultGuardConfig = (): MotionGuardConfig => ({
+  version: GUARD_CONFIG_VERSION,
+  jointLimits: [],
+  zones: [],
+  maxStep: { distance: 0, angle: 0 },
+  modelId: null
+});
+
+const AXES = ['x', 'y', 'z'] as const;
+
+const inZone = (point: Point3, zone: WorkspaceZone) =>
+  AXES.every((axis) => point[axis] >= zone.min[axis] && point[axis] <= zone.max[axis]);
+
+const formatPoint = ({ x, y, z }: Point3) => `(${x.toFixed(1)}, ${y.toFixed(1)}, ${z.toFixed(1)})`;
+
+/**
+ * Check a config read from storage or a file, returns a clean copy or throws
+ */
+export function validateGuardConfig(data: any): MotionGuardConfig {
+  if (!data || typeof data !== 'object' || data.version !== GUARD_CONFIG_VERSION) {
+    throw new Error(`Invalid motion guard config: expected version ${GUARD_CONFIG_VERSION}`);
+  }
+  const fail = (field: string, value: unknown) => {
+    throw new Error(`Invalid motion guard config: ${field} = ${JSON.stringify(value)}`);
+  };
+  const isPoint = (point: any) => point && AXES.every((axis) => Number.isFinite(point[axis]));
+
+  const jointLimits: SoftLimit[] = (Array.isArray(data.jointLimits) ? data.jointLimits : fail('jointLimits', data.jointLimits))
+    .map((limit: any) => {
+      const valid = limit && Number.isInteger(limit.axis) && limit.axis >= 1 && limit.axis <= 6 &&
+        Number.isFinite(limit.min) && Number.isFinite(limit.max) && limit.min <= limit.max;
+      if (!valid) fail('jointLimits', limit);
+      return { axis: limit.axis, min: limit.min, max: limit.max };
+    });
+
+  const zones: WorkspaceZone[] = (Array.isArray(data.zones) ? data.zones : fail('zones', data.zones))
+    .map((zone: any) => {
+      const valid = zone && typeof zone.name === 'string' && Object.values(ZoneKind).includes(zone.kind) &&
+        isPoint(zone.min) && isPoint(zone.max) && AXES.every((axis) => zone.min[axis] <= zone.max[axis]);
+      if (!valid) fail('zones', zone);
+      return {
+        name: zone.name,
+        kind: zone.kind,
+        min: { x: zone.min.x, y: zone.min.y, z: zone.min.z },
+        max: { x: zone.max.x, y: zone.max.y, z: zone.max.z }
+      };
+    });
+
+  const { distance, angle } = data.maxStep ?? {};
+  if (!(Number.isFinite(distance) && distance >= 0 && Number.isFinite(angle) && angle >= 0)) {
+    fail('maxStep', data.maxStep);
+  }
+  if (data.modelId !== null && !(typeof data.modelId === 'string' && ROBOT_MODELS[data.modelId])) {
+    fail('modelId', data.modelId);
+  }
+
+  return { version: GUARD_CONFIG_VERSION, jointLimits, zones, maxStep: { distance, angle }, modelId: data.modelId };
+}
+
+/**
+ * Target of a motion frame, null if it has no six readable values
+ * [MovePointV3(1,"0_0_0_0_90_0","","0_50_100"); id = 5] -> { joints: [0, 0, 0, 0, 90, 0] }
+ */
+export function parseMotionTarget(command: string): MotionTarget | null {
+  const match = command.match(/\(\s*(\d+)\s*,\s*"([^"]*)"/);
+  if (!match?.[1] || match[2] === undefined) return null;
+  const values = match[2].split('_').slice(0, 6).map(Number);
+  if (values.length < 6 || !values.every(Number.isFinite)) return null;
+
+  if (parseInt(match[1]) === 1) return { joints: values };
+  const [x, y, z, a, b, c] = values as [number, number, number, number, number, number];
+  return { pose: { x, y, z, a, b, c } };
+}
+
+export const serializeGuardConfig = (config: MotionGuardConfig): string => JSON.stringify(config, null, 2);
+
+export function parseGuardConfig(text: string): MotionGuardConfig {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid motion guard config: ${(error as Error).message}`);
+  }
+  return validateGuardConfig(data);
+}
+
+export class MotionGuard {
+  private config: MotionGuardConfig = defaultGuardConfig();
+  private kinematics: RobotKinematics | null = null;
+  private tool: Pose = IDENTITY_POSE;  // Active tool, for kinematic checks
+
+  constructor(config: MotionGuardConfig = defaultGuardConfig()) {
+    this.configure(config);
+  }
+
+  getConfig(): MotionGuardConfig {
+    return structuredClone(this.config);
+  }
+
+  /**
+   * Replace the config (validated, throws Error on the first problem)
+   */
+  configure(config: MotionGuardConfig) {
+    this.config = validateGuardConfig(config);
+    const model = this.config.modelId ? ROBOT_MODELS[this.config.modelId] : undefined;
+    this.kinematics = model ? new RobotKinematics(model) : null;
+  }
+
+  /**
+   * Whether the checks use the current position (max step or a robot model)
+   */
+  get needsPosition(): boolean {
+    const { distance, angle } = this.config.maxStep;
+    return distance > 0 || angle > 0 || this.kinematics !== null;
+  }
+
+  /**
+   * Violations of the target of a motion frame (see parseMotionTarget)
+   */
+  checkCommand(command: string, current: CurrentPosition): GuardViolation[] {
+    const target = parseMotionTarget(command);
+    if (!target) {
+      return [{ rule: GuardRule.UNKNOWN_TARGET, message: `No joint or world target in ${command}` }];
+    }
+    return 'joints' in target ? this.checkJoints(target.joints, current) : this.checkPose(target.pose, current);
+  }
+
+  /**
+   * Check for RobotTransport.setMotionCheck, refuses a move with violations (no override)
+   * readPosition is called only when a rule needs the current position
+   */
+  motionCheck(readPosition: () => Promise<CurrentPosition>): (command: string) => Promise<void> {
+    return async (command) => {
+      const current = this.needsPosition ? await readPosition() : { joints: [], pose: IDENTITY_POSE };
+      const violations = this.checkCommand(command, current);
+      if (violations.length > 0) {
+        throw new Error(`Rejected by motion guard: ${violations.map((violation) => violation.message).join('; ')}`);
+      }
+    };
+  }
+
+  /**
+   * TCP offset of the active tool (GetToolV3), used by the kinematic checks
+   */
+  setTool(tool: Pose) {
+    this.tool = { ...tool };
+  }
+
+  /**
+   * Violations of a joint target (MovePointV3 type 1), empty if it may be sent
+   */
+  checkJoints(target: number[], current: CurrentPosition): GuardViolation[] {
+    const violations = this.checkJointLimits(target);
+
+    const { angle } = this.config.maxStep;
+    target.forEach((joint, i) => {
+      const step = Math.abs(joint - (current.joints[i] ?? 0));
+      if (angle > 0 && step > angle) {
+        violations.push({
+          rule: GuardRule.MAX_STEP,
+          message: `J${i + 1} moves ${step.toFixed(1)}° (max ${angle}°)`
+        });
+      }
+    });
+
+    if (this.kinematics) {
+      const tcp = this.kinematics.forward(target, this.tool);
+      violations.push(...this.checkZones(tcp), ...this.checkDistance(tcp, current.pose));
+    }
+    return violations;
+  }
+
+  /**
+   * Violations of a world target (MovePointV3 type 2), empty if it may be sent
+   */
+  checkPose(target: Pose, current: CurrentPosition): GuardViolation[] {
+    const violations = [...this.checkZones(target), ...this.checkDistance(target, current.pose)];
+
+    if (this.kinematics) {
+      // The controller keeps the current configuration for a target without cfg
+      const config = this.kinematics.configFlags(current.joints);
+      const solution = this.kinematics.solve(target, config, this.tool);
+      if (!solution) {
+        violations.push({
+          rule: GuardRule.UNREACHABLE,
+          message: `${formatPoint(target)} is out of reach in configuration mod=${config.mod}`
+        });
+      } else {
+        violations.push(...this.checkJointLimits(solution.joints));
+      }
+    }
+    return violations;
+  }
+
+  private checkJointLimits(joints: number[]): GuardViolation[] {
+    const violations: GuardViolation[] = [];
+    for (const { axis, min, max } of this.config.jointLimits) {
+      const joint = joints[axis - 1];
+      if (joint !== undefined && (joint < min || joint > max)) {
+        violations.push({
+          rule: GuardRule.JOINT_LIMIT,
+          message: `J${axis} = ${joint.toFixed(2)}° outside ${min} .. ${max}`
+        });
+      }
+    }
+    return violations;
+  }
+
+  private checkZones(point: Point3): GuardViolation[] {
+    const violations: GuardViolation[] = [];
+    const keepIn = this.config.zones.filter((zone) => zone.kind === ZoneKind.KEEP_IN);
+    if (keepIn.length > 0 && !keepIn.some((zone) => inZone(point, zone))) {
+      violations.push({
+        rule: GuardRule.KEEP_IN,
+        message: `${formatPoint(point)} outside keep-in zones ${keepIn.map((zone) => zone.name).join(', ')}`
+      });
+    }
+    for (const zone of this.config.zones) {
+      if (zone.kind === ZoneKind.KEEP_OUT && inZone(point, zone)) {
+        violations.push({ rule: GuardRule.KEEP_OUT, message: `${formatPoint(point)} inside keep-out zone ${zone.name}` });
+      }
+    }
+    return violations;
+  }
+
+  private checkDistance(target: Point3, current: Point3): GuardViolation[] {
+    const { distance } = this.config.maxStep;
+    const step = Math.hypot(target.x - current.x, target.y - current.y, target.z - current.z);
+    if (distance > 0 && step > distance) {
+      return [{ rule: GuardRule.MAX_STEP, message: `TCP moves ${step.toFixed(1)} mm (max ${distance} mm)` }];
+    }
+    return [];
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Pose Math
+ * Cartesian poses (mm / deg) as used by the controller and 4x4 homogeneous transforms
+ *
+ * - Orientation a, b, c rotates about X, Y and Z: R = Rz(c) · Ry(b) · Rx(a)
+ *   (same convention as the virtual controller)
+ * - Matrices are row-major number[4][4]
+ */
+
+export interface Pose {
+  x: number;
+  y: number;
+  z: number;
+  a: number;
+  b: number;
+  c: number;
+}
+
+type Row = [number, number, number, number];
+export type Matrix4 = [Row, Row, Row, Row];
+
+const DEG = Math.PI / 180;
+
+export const IDENTITY_POSE: Pose = { x: 0, y: 0, z: 0, a: 0, b: 0, c: 0 };
+
+export function poseToMatrix({ x, y, z, a, b, c }: Pose): Matrix4 {
+  const [ca, sa] = [Math.cos(a * DEG), Math.sin(a * DEG)];
+  const [cb, sb] = [Math.cos(b * DEG), Math.sin(b * DEG)];
+  const [cc, sc] = [Math.cos(c * DEG), Math.sin(c * DEG)];
+  return [
+    [cc * cb, cc * sb * sa - sc * ca, cc * sb * ca + sc * sa, x],
+    [sc * cb, sc * sb * sa + cc * ca, sc * sb * ca - cc * sa, y],
+    [-sb, cb * sa, cb * ca, z],
+    [0, 0, 0, 1]
+  ];
+}
+
+export function matrixToPose(m: Matrix4): Pose {
+  return {
+    x: m[0][3],
+    y: m[1][3],
+    z: m[2][3],
+    a: Math.atan2(m[2][1], m[2][2]) / DEG,
+    b: Math.atan2(-m[2][0], Math.hypot(m[0][0], m[1][0])) / DEG,
+    c: Math.atan2(m[1][0], m[0][0]) / DEG
+  };
+}
+
+export function multiply(m: Matrix4, n: Matrix4): Matrix4 {
+  type Index = 0 | 1 | 2 | 3;
+  const cell = (i: Index, j: Index) =>
+    m[i][0] * n[0][j] + m[i][1] * n[1][j] + m[i][2] * n[2][j] + m[i][3] * n[3][j];
+  const row = (i: Index): Row => [cell(i, 0), cell(i, 1), cell(i, 2), cell(i, 3)];
+  return [row(0), row(1), row(2), row(3)];
+}
+
+/**
+ * Inverse of a rigid transform (rotation transposed, translation rotated back)
+ */
+export function invertRigid(m: Matrix4): Matrix4 {
+  const [x, y, z] = [m[0][3], m[1][3], m[2][3]];
+  const row = (i: 0 | 1 | 2): Row => [
+    m[0][i],
+    m[1][i],
+    m[2][i],
+    -(m[0][i] * x + m[1][i] * y + m[2][i] * z)
+  ];
+  return [row(0), row(1), row(2), [0, 0, 0, 1]];
+}
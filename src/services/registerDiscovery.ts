@@ -0,0 +1,308 @@
+/**
+ * Register Discovery
+ * Collects what scans and polls reveal about Modbus registers, to grow the register map
+ *
+ * - Every observed register keeps min/max, last value and how often it changed
+ * - Correlation run: while one known axis is jogged at constant speed, each register is
+ *   correlated (Pearson) with time; registers that follow the axis reach |r| ≈ 1
+ * - Writable probes are recorded per address
+ * - The dataset is exported/imported as JSON and yields register map candidates
+ */
+
+import {
+  DataType,
+  REGISTER_MAP,
+  WordOrder
+} from './modbusRegisterMap';
+
+export const DISCOVERY_DATASET_VERSION = 1;
+
+// Axes a correlation run can be labelled with
+export const DISCOVERY_AXES = ['x', 'y', 'z', 'a', 'b', 'c', 'j1', 'j2', 'j3', 'j4', 'j5', 'j6'] as const;
+export type DiscoveryAxis = typeof DISCOVERY_AXES[number];
+
+// |r| from which a register is taken to follow the jogged axis
+export const CORRELATION_THRESHOLD = 0.9;
+
+export interface RegisterObservation {
+  address: number;
+  samples: number;
+  min: number;
+  max: number;
+  last: number;
+  changes: number;                 // Value differed from the previous sample
+  firstSeenAt: number;             // epoch ms
+  lastSeenAt: number;
+  writable: boolean | null;        // null = not probed
+  correlation: Partial<Record<DiscoveryAxis, number>>;  // Pearson r per jogged axis
+}
+
+// Content of a findings file
+export interface DiscoveryDataset {
+  version: number;
+  createdAt: string;               // ISO timestamp
+  registers: RegisterObservation[];
+}
+
+// Proposed register map entry
+export interface RegisterCandidate {
+  field: string;
+  address: number;
+  length: number;
+  dataType: DataType;
+  wordOrder: WordOrder;
+  known: boolean;                  // Already in REGISTER_MAP
+  reason: string;
+}
+
+// Running sums for one register during a correlation run
+interface CorrelationSums {
+  n: number;
+  t: number;
+  v: number;
+  tt: number;
+  vv: number;
+  tv: number;
+}
+
+export class RegisterDiscovery {
+  private registers = new Map<number, RegisterObservation>();
+  private createdAt: string = new Date().toISOString();
+  private correlationAxis: DiscoveryAxis | null = null;
+  private correlationStart: number = 0;
+  private sums = new Map<number, CorrelationSums>();
+
+  get size(): number {
+    return this.registers.size;
+  }
+
+  get correlating(): DiscoveryAxis | null {
+    return this.correlationAxis;
+  }
+
+  /**
+   * Record a block of registers read from address
+   */
+  observe(address: number, values: number[], at: number = Date.now()) {
+    values.forEach((value, i) => {
+      const addr = address + i;
+      const entry = this.registers.get(addr);
+      if (!entry) {
+        this.registers.set(addr, {
+          address: addr,
+          samples: 1,
+          min: value,
+          max: value,
+          last: value,
+          changes: 0,
+          firstSeenAt: at,
+          lastSeenAt: at,
+          writable: null,
+          correlation: {}
+        });
+      } else {
+        if (value !== entry.last) entry.changes++;
+        entry.samples++;
+        entry.min = Math.min(entry.min, value);
+        entry.max = Math.max(entry.max, value);
+        entry.last = value;
+        entry.lastSeenAt = at;
+      }
+
+      if (this.correlationAxis) {
+        const s = this.sums.get(addr) ?? { n: 0, t: 0, v: 0, tt: 0, vv: 0, tv: 0 };
+        const t = (at - this.correlationStart) / 1000;
+        s.n++;
+        s.t += t;
+        s.v += value;
+        s.tt += t * t;
+        s.vv += value * value;
+        s.tv += t * value;
+        this.sums.set(addr, s);
+      }
+    });
+  }
+
+  /**
+   * Record the result of a write probe
+   */
+  markWritable(address: number, writable: boolean) {
+    const entry = this.registers.get(address);
+    if (entry) {
+      entry.writable = writable;
+    } else {
+      this.registers.set(address, {
+        address,
+        samples: 0,
+        min: 0,
+        max: 0,
+        last: 0,
+        changes: 0,
+        firstSeenAt: Date.now(),
+        lastSeenAt: Date.now(),
+        writable,
+        correlation: {}
+      });
+    }
+  }
+
+  /**
+   * Start correlating registers with a jog of axis (replaces a running correlation)
+   */
+  startCorrelation(axis: DiscoveryAxis) {
+    this.correlationAxis = axis;
+    this.correlationStart = Date.now();
+    this.sums.clear();
+  }
+
+  /**
+   * Finish the correlation run and store r for every register sampled at least 3 times
+   * Returns the registers that followed the axis, strongest first
+   */
+  stopCorrelation(): { address: number; r: number }[] {
+    const axis = this.correlationAxis;
+    this.correlationAxis = null;
+    if (!axis) return [];
+
+    const matches: { address: number; r: number }[] = [];
+    this.sums.forEach((s, address) => {
+      if (s.n < 3) return;
+      const cov = s.n * s.tv - s.t * s.v;
+      const varT = s.n * s.tt - s.t * s.t;
+      const varV = s.n * s.vv - s.v * s.v;
+      // Constant register: no correlation
+      const exact = varT > 0 && varV > 0 ? cov / Math.sqrt(varT * varV) : 0;
+      const r = Math.round(Math.max(-1, Math.min(1, exact)) * 1000) / 1000;
+      const entry = this.registers.get(address);
+      if (entry) entry.correlation[axis] = r;
+      if (Math.abs(r) >= CORRELATION_THRESHOLD) matches.push({ address, r });
+    });
+    this.sums.clear();
+    return matches.sort((a, b) => Math.abs(b.r) - Math.abs(a.r));
+  }
+
+  /**
+   * Changes per second over the observed time span
+   */
+  changeFrequency(address: number): number {
+    const entry = this.registers.get(address);
+    if (!entry) return 0;
+    const seconds = (entry.lastSeenAt - entry.firstSeenAt) / 1000;
+    return seconds > 0 ? entry.changes / seconds : 0;
+  }
+
+  get dataset(): DiscoveryDataset {
+    return {
+      version: DISCOVERY_DATASET_VERSION,
+      createdAt: this.createdAt,
+      registers: [...this.registers.values()]
+        .sort((a, b) => a.address - b.address)
+        .map(entry => ({ ...entry, correlation: { ...entry.correlation } }))
+    };
+  }
+
+  /**
+   * Replace the findings with a dataset
+   */
+  load(dataset: DiscoveryDataset) {
+    this.registers.clear();
+    this.createdAt = dataset.createdAt;
+    dataset.registers.forEach(entry => {
+      this.registers.set(entry.address, { ...entry, correlation: { ...entry.correlation } });
+    });
+  }
+
+  clear() {
+    this.registers.clear();
+    this.sums.clear();
+    this.correlationAxis = null;
+    this.createdAt = new Date().toISOString();
+  }
+
+  /**
+   * Propose register map entries from the findings
+   * - |r| >= CORRELATION_THRESHOLD with a jogged axis names the field after the axis
+   * - A changing register followed by one that only reads 0 / 65535 is the low word of an int32
+   * - Values above 32767 in a changing register suggest int16
+   * - Writable registers are proposed even if their value never changed
+   */
+  proposeCandidates(): RegisterCandidate[] {
+    const candidates: RegisterCandidate[] = [];
+    const taken = new Set<number>();
+
+    for (const entry of this.dataset.registers) {
+      if (taken.has(entry.address) || (entry.changes === 0 && !entry.writable)) continue;
+
+      const best = Object.entries(entry.correlation)
+        .filter(([, r]) => Math.abs(r ?? 0) >= CORRELATION_THRESHOLD)
+        .sort(([, a], [, b]) => Math.abs(b ?? 0) - Math.abs(a ?? 0))[0];
+
+      const next = this.registers.get(entry.address + 1);
+      const highWord = !!next && next.samples > 0 &&
+        [0, 0xFFFF].includes(next.min) && [0, 0xFFFF].includes(next.max);
+      const dataType = highWord ? DataType.INT32 : entry.max > 0x7FFF ? DataType.INT16 : DataType.UINT16;
+      const length = highWord ? 2 : 1;
+
+      const reasons: string[] = [];
+      if (best) reasons.push(`follows ${best[0]} (r=${best[1]})`);
+      if (entry.writable) reasons.push('writable');
+      if (highWord) reasons.push(`R${entry.address + 1} only reads 0/65535 (high word)`);
+      else if (dataType === DataType.INT16) reasons.push('values above 32767 (signed)');
+      reasons.push(`${this.changeFrequency(entry.address).toFixed(1)} changes/s, range ${entry.min}..${entry.max}`);
+
+      const known = REGISTER_MAP.some(field => field.address === entry.address);
+      candidates.push({
+        field: best ? best[0] : `r${entry.address}`,
+        address: entry.address,
+        length,
+        dataType,
+        wordOrder: WordOrder.LOW_FIRST,
+        known,
+        reason: reasons.join('; ')
+      });
+      for (let i = 0; i < length; i++) taken.add(entry.address + i);
+    }
+
+    return candidates;
+  }
+}
+
+/**
+ * Serialize dataset for a findings file
+ */
+export function serializeDataset(dataset: DiscoveryDataset): string {
+  return JSON.stringify(dataset, null, 2);
+}
+
+/**
+ * Parse and validate findings file content
+ */
+export function parseDataset(text: string): DiscoveryDataset {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid findings file: ${(error as Error).message}`);
+  }
+
+  if (!data || data.version !== DISCOVERY_DATASET_VERSION || !Array.isArray(data.registers)) {
+    throw new Error(`Invalid findings file: expected version ${DISCOVERY_DATASET_VERSION} with registers`);
+  }
+
+  const numeric = ['address', 'samples', 'min', 'max', 'last', 'changes', 'firstSeenAt', 'lastSeenAt'];
+  data.registers.forEach((entry: any, i: number) => {
+    if (!entry || numeric.some(key => typeof entry[key] !== 'number')) {
+      throw new Error(`Invalid findings file: malformed register ${i}`);
+    }
+  });
+
+  return {
+    version: data.version,
+    createdAt: String(data.createdAt ?? ''),
+    registers: data.registers.map((entry: any) => ({
+      ...entry,
+      writable: typeof entry.writable === 'boolean' ? entry.writable : null,
+      correlation: entry.correlation && typeof entry.correlation === 'object' ? entry.correlation : {}
+    }))
+  };
+}
@@ -8,40 +8,11 @@
  */
 
 import { robotService } from './robotState';
+import { parseCommandStatusRegister, type CommandStatusRegister } from './modbusCommand';
+import { parseRobotStatusRegister, type RobotStatusRegister } from './modbusRegisterMap';
 
-/**
- * Robot Status Register Bits (Register 40004 / MBDataBuffer[3])
- */
-export interface RobotStatusRegister {
-  isManualMode: boolean;      // bit0
-  isAutoMode: boolean;        // bit1
-  isRemoteMode: boolean;      // bit2
-  isServoEnabled: boolean;    // bit3
-  isRunning: boolean;         // bit4
-  hasError: boolean;          // bit5
-  isProgramRunning: boolean;  // bit6
-  isInMotion: boolean;        // bit7
-}
-
-/**
- * Command Status Register Bits (Register 40018 / MBDataBuffer[18])
- */
-export interface CommandStatusRegister {
-  commandIsZero: boolean;         // bit0
-  emergencyStopOK: boolean;       // bit1
-  startCommandOK: boolean;        // bit2
-  stopCommandOK: boolean;         // bit3
-  resetCommandOK: boolean;        // bit4
-  enableUpCommandOK: boolean;     // bit5
-  enableDownCommandOK: boolean;   // bit6
-  loadProjectOK: boolean;         // bit7
-  logoutProjectOK: boolean;       // bit8
-  setGlobalSpeedOK: boolean;      // bit9
-  waitingForControl: boolean;     // bit10
-  waitingForCommand: boolean;     // bit11
-  commandExecutionComplete: boolean;  // bit12
-  commandExecutionError: boolean;     // bit13
-}
+export type { CommandStatusRegister } from './modbusCommand';
+export type { RobotStatusRegister } from './modbusRegisterMap';
 
 /**
  * Complete Robot Diagnostics State
@@ -94,82 +65,6 @@ const initialDiagnosticsState: DiagnosticsState = {
 
 let diagnosticsState = { ...initialDiagnosticsState };
 
-/**
- * Parse Robot Status Register (40004)
- * 
- * Register bits:
- * - bit0: Manual Mode
- * - bit1: Automatic Mode
- * - bit2: Remote Operation Mode
- * - bit3: Enable Status (Servo)
- * - bit4: Running Status
- * - bit5: Error Status
- * - bit6: Program Running Status
- * - bit7: Robot in Motion
- */
-function parseRobotStatusRegister(value: number): RobotStatusRegister {
-  return {
-    isManualMode: (value & 0x01) !== 0,
-    isAutoMode: (value & 0x02) !== 0,
-    isRemoteMode: (value & 0x04) !== 0,
-    isServoEnabled: (value & 0x08) !== 0,
-    isRunning: (value & 0x10) !== 0,
-    hasError: (value & 0x20) !== 0,
-    isProgramRunning: (value & 0x40) !== 0,
-    isInMotion: (value & 0x80) !== 0
-  };
-}
-
-/**
- * Parse Command Status Register (40018)
- * 
- * Register bits for command execution feedback
- */
-function parseCommandStatusRegister(value: number): CommandStatusRegister {
-  return {
-    commandIsZero: (value & 0x01) !== 0,
-    emergencyStopOK: (value & 0x02) !== 0,
-    startCommandOK: (value & 0x04) !== 0,
-    stopCommandOK: (value & 0x08) !== 0,
-    resetCommandOK: (value & 0x10) !== 0,
-    enableUpCommandOK: (value & 0x20) !== 0,
-    enableDownCommandOK: (value & 0x40) !== 0,
-    loadProjectOK: (value & 0x80) !== 0,
-    logoutProjectOK: (value & 0x100) !== 0,
-    setGlobalSpeedOK: (value & 0x200) !== 0,
-    waitingForControl: (value & 0x400) !== 0,
-    waitingForCommand: (value & 0x800) !== 0,
-    commandExecutionComplete: (value & 0x1000) !== 0,
-    commandExecutionError: (value & 0x2000) !== 0
-  };
-}
-
-/**
- * Decode project name from registers (20 bytes = 10 registers)
- */
-function decodeProjectName(registers: number[]): string {
-  try {
-    const bytes: number[] = [];
-    for (let i = 0; i < 10 && i < registers.length; i++) {
-      const value = registers[i] ?? 0;
-      bytes.push(value & 0xFF);
-      bytes.push((value >> 8) & 0xFF);
-    }
-    // Convert to string, stop at null terminator
-    let name = '';
-    for (let i = 0; i < bytes.length; i += 2) {
-      const byte1 = bytes[i] ?? 0;
-      const byte2 = bytes[i + 1] ?? 0;
-      if (byte1 === 0 && byte2 === 0) break;
-      if (byte1 !== 0) name += String.fromCharCode(byte1);
-      if (byte2 !== 0) name += String.fromCharCode(byte2);
-    }
-    return name.trim() || 'No project loaded';
-  } catch {
-    return 'Unknown';
-  }
-}
-
 /**
  * Main Diagnostics Service
  */
@@ -211,34 +106,32 @@ export const robotDiagnostics = {
 
       // Get the latest register data from robotService state
       const rawRegisters = robotService.state.lastRegisters;
+      const registers = robotService.state.registers;
 
-      if (rawRegisters.length < 19) {
-        errors.push(`Incomplete register data received (${rawRegisters.length}/19)`);
+      if (registers.commandStatus === undefined) {
+        errors.push('No status register data received');
       }
 
-      // Parse registers
-      // Register 40002 (index 0): Global speed
-      const globalSpeed = rawRegisters[0] ?? 0;
+      // Decoded through the register map (modbusRegisterMap.ts)
+      // Register 40002: Global speed
+      const globalSpeed = Number(registers.globalSpeed ?? 0);
 
-      // Register 40004 (index 2): Robot status
-      const robotStatusValue = rawRegisters[2] ?? 0;
-      const robotStatus = parseRobotStatusRegister(robotStatusValue);
+      // Register 40004: Robot status
+      const robotStatus = parseRobotStatusRegister(Number(registers.statusWord ?? 0));
 
-      // Register 40005-40013 (indices 3-11): Project name
-      const projectNameRegisters = rawRegisters.slice(3, 13);
-      const projectName = decodeProjectName(projectNameRegisters);
+      // Register 40005-40013: Project name
+      const projectName = String(registers.projectName ?? '') || 'No project loaded';
 
-      // Register 40014-40017 (indices 12-15): Digital outputs
+      // Register 40014-40017: Digital outputs
       const digitalOutputs = {
-        do1_16: rawRegisters[12] ?? 0,
-        do17_32: rawRegisters[13] ?? 0,
-        do33_48: rawRegisters[14] ?? 0,
-        do49_64: rawRegisters[15] ?? 0
+        do1_16: Number(registers.do1_16 ?? 0),
+        do17_32: Number(registers.do17_32 ?? 0),
+        do33_48: Number(registers.do33_48 ?? 0),
+        do49_64: Number(registers.do49_64 ?? 0)
       };
 
-      // Register 40018 (index 16): Command status
-      const commandStatusValue = rawRegisters[16] ?? 0;
-      const commandStatus = parseCommandStatusRegister(commandStatusValue);
+      // Register 40018: Command status
+      const commandStatus = parseCommandStatusRegister(Number(registers.commandStatus ?? 0));
 
       // Determine if robot can accept commands
       const canAcceptCommands =
@@ -0,0 +1,281 @@
+/**
+ * Robot Kinematics
+ * Forward and inverse kinematics of 6-axis ER-series arms from standard DH parameters (mm / deg)
+ *
+ * - forward(joints, tool) gives the TCP pose in the base frame (same pose convention as poseMath)
+ * - inverse(pose, tool) gives every joint solution of the pose (closed form, spherical wrist),
+ *   each tagged with the controller's cfg flags (mod cf1..cf6 of GetCurWPosV3 / MovePointV3)
+ * - Joint values are controller joints: DH theta = joint + offset
+ *
+ * cfg flags:
+ * - mod bit 0: wrist flipped (J5 < 0), bit 1: elbow down, bit 2: arm behind axis 1
+ * - cf1..cf6: turn of each joint, 0 for (-180, 180], 1 for (180, 540], -1 for (-540, -180] ...
+ */
+
+import type { CPOSData } from './robotProtocol';
+import { invertRigid, matrixToPose, multiply, poseToMatrix, IDENTITY_POSE, type Matrix4, type Pose } from './poseMath';
+
+export interface DhLink {
+  a: number;       // mm, along x
+  alpha: number;   // deg, about x
+  d: number;       // mm, along z
+  offset: number;  // deg, DH theta at joint 0
+}
+
+export interface RobotModel {
+  id: string;
+  name: string;
+  dh: DhLink[];                 // 6 links, base to flange
+  limits: [number, number][];   // deg, joint soft limits min..max
+}
+
+export type ConfigFlags = Pick<CPOSData, 'mod' | 'cf1' | 'cf2' | 'cf3' | 'cf4' | 'cf5' | 'cf6'>;
+
+export interface IkSolution {
+  joints: number[];
+  config: ConfigFlags;
+  withinLimits: boolean;
+}
+
+export const ConfigBit = {
+  WRIST_FLIP: 1,
+  ELBOW_DOWN: 2,
+  BACK: 4
+} as const;
+export type ConfigBit = typeof ConfigBit[keyof typeof ConfigBit];
+
+// Link pattern the closed-form solver handles (twists of a typical 6-axis arm)
+const SOLVER_ALPHAS = [-90, 0, -90, 90, -90, 0];
+
+// Generic 6-axis ER geometry (same as the virtual controller)
+export const ROBOT_MODELS: Record<string, RobotModel> = {
+  ER_GENERIC: {
+    id: 'ER_GENERIC',
+    name: 'Generic ER 6-axis (virtual controller)',
+    dh: [
+      { a: 150, alpha: -90, d: 430, offset: 0 },
+      { a: 570, alpha: 0, d: 0, offset: -90 },
+      { a: 150, alpha: -90, d: 0, offset: 0 },
+      { a: 0, alpha: 90, d: 640, offset: 0 },
+      { a: 0, alpha: -90, d: 0, offset: 0 },
+      { a: 0, alpha: 0, d: 100, offset: 0 }
+    ],
+    limits: [[-170, 170], [-110, 150], [-80, 230], [-190, 190], [-125, 125], [-360, 360]]
+  }
+};
+
+export const DEFAULT_ROBOT_MODEL = ROBOT_MODELS.ER_GENERIC!;
+
+const DEG = Math.PI / 180;
+const EPSILON = 1e-9;
+
+// Angle in (-180, 180]
+const wrap = (angle: number) => {
+  const wrapped = angle - 360 * Math.floor((angle + 180) / 360);
+  return wrapped === -180 ? 180 : wrapped;
+};
+
+// Turn index of a joint (cf1..cf6)
+const turn = (joint: number) => Math.ceil((joint - 180) / 360 - EPSILON) || 0;
+
+function dhMatrix({ a, alpha, d, offset }: DhLink, joint: number): Matrix4 {
+  const th = (joint + offset) * DEG;
+  const al = alpha * DEG;
+  const [ct, st, ca, sa] = [Math.cos(th), Math.sin(th), Math.cos(al), Math.sin(al)];
+  return [
+    [ct, -st * ca, st * sa, a * ct],
+    [st, ct * ca, -ct * sa, a * st],
+    [0, sa, ca, d],
+    [0, 0, 0, 1]
+  ];
+}
+
+/**
+ * Check a model before use, throws Error naming the first problem
+ */
+export function validateModel(model: RobotModel): RobotModel {
+  if (model.dh.length !== 6 || model.limits.length !== 6) {
+    throw new Error(`Robot model ${model.id}: expected 6 DH links and 6 joint limits`);
+  }
+  model.dh.forEach((link, i) => {
+    if (![link.a, link.alpha, link.d, link.offset].every(Number.isFinite)) {
+      throw new Error(`Robot model ${model.id}: invalid DH link ${i + 1}`);
+    }
+  });
+  model.limits.forEach(([min, max], i) => {
+    if (!(min < max)) {
+      throw new Error(`Robot model ${model.id}: invalid J${i + 1} limits ${min} .. ${max}`);
+    }
+  });
+  return model;
+}
+
+export class RobotKinematics {
+  readonly model: RobotModel;
+
+  constructor(model: RobotModel = DEFAULT_ROBOT_MODEL) {
+    this.model = validateModel(model);
+  }
+
+  /**
+   * Flange (tool = identity) or TCP transform in the base frame
+   */
+  forwardMatrix(joints: number[], tool: Pose = IDENTITY_POSE): Matrix4 {
+    let m = poseToMatrix(IDENTITY_POSE);
+    this.model.dh.forEach((link, i) => {
+      m = multiply(m, dhMatrix(link, joints[i] ?? 0));
+    });
+    return multiply(m, poseToMatrix(tool));
+  }
+
+  forward(joints: number[], tool: Pose = IDENTITY_POSE): Pose {
+    return matrixToPose(this.forwardMatrix(joints, tool));
+  }
+
+  /**
+   * cfg flags the controller reports for these joints
+   */
+  configFlags(joints: number[]): ConfigFlags {
+    const [j1 = 0, j2 = 0, j3 = 0, j4 = 0, j5 = 0, j6 = 0] = joints;
+    const [l1, l2, l3, l4] = this.model.dh as [DhLink, DhLink, DhLink, DhLink];
+
+    // Wrist centre (origin of frame 4) along the direction of axis 1
+    const wrist = [dhMatrix(l2, j2), dhMatrix(l3, j3), dhMatrix(l4, j4)].reduce(multiply, dhMatrix(l1, j1));
+    const th1 = (j1 + l1.offset) * DEG;
+    const radial = wrist[0][3] * Math.cos(th1) + wrist[1][3] * Math.sin(th1);
+    // Forearm angle in the arm plane, positive with the elbow up
+    const elbow = Math.sin((j3 + l3.offset) * DEG + Math.atan2(l4.d, l3.a));
+
+    let mod = 0;
+    if (wrap(j5) < 0) mod |= ConfigBit.WRIST_FLIP;
+    if (elbow < 0) mod |= ConfigBit.ELBOW_DOWN;
+    if (radial < 0) mod |= ConfigBit.BACK;
+
+    return { mod, cf1: turn(j1), cf2: turn(j2), cf3: turn(j3), cf4: turn(j4), cf5: turn(j5), cf6: turn(j6) };
+  }
+
+  /**
+   * Every joint solution reaching the pose (empty if out of reach)
+   * Joints are within (-180, 180], plus each ±360° turn that stays within the soft limits
+   */
+  inverse(pose: Pose, tool: Pose = IDENTITY_POSE): IkSolution[] {
+    const dh = this.model.dh as [DhLink, DhLink, DhLink, DhLink, DhLink, DhLink];
+    if (dh.some((link, i) => link.alpha !== SOLVER_ALPHAS[i]) || dh[3].a || dh[4].a || dh[4].d || dh[5].a) {
+      throw new Error(`Robot model ${this.model.id}: no closed-form inverse kinematics for this geometry`);
+    }
+    const [l1, l2, l3, l4, , l6] = dh;
+
+    // Flange, then wrist centre (d6 back along the flange z axis)
+    const flange = multiply(poseToMatrix(pose), invertRigid(poseToMatrix(tool)));
+    const wx = flange[0][3] - l6.d * flange[0][2];
+    const wy = flange[1][3] - l6.d * flange[1][2];
+    const wz = flange[2][3] - l6.d * flange[2][2];
+
+    // Arm plane: links 2 and 3 (with the d4 forearm) as a planar two-link arm
+    const forearm = Math.hypot(l3.a, l4.d);
+    const phi = Math.atan2(l4.d, l3.a);
+    const horizontal = Math.hypot(wx, wy);
+    const base = horizontal < EPSILON ? 0 : Math.atan2(wy, wx);
+
+    const arms: number[][] = [];
+    for (const back of [false, true]) {
+      const th1 = back ? base + Math.PI : base;
+      const p = (back ? -horizontal : horizontal) - l1.a;
+      const q = -(wz - l1.d);
+      const cos3 = (p * p + q * q - l2.a * l2.a - forearm * forearm) / (2 * l2.a * forearm);
+      if (Math.abs(cos3) > 1 + EPSILON) continue;
+
+      for (const elbowDown of [false, true]) {
+        const th3p = (elbowDown ? -1 : 1) * Math.acos(Math.max(-1, Math.min(1, cos3)));
+        const th2 = Math.atan2(q, p) - Math.atan2(forearm * Math.sin(th3p), l2.a + forearm * Math.cos(th3p));
+        const th3 = th3p - phi;
+        arms.push([th1 / DEG - l1.offset, th2 / DEG - l2.offset, th3 / DEG - l3.offset].map(wrap));
+      }
+    }
+
+    const solutions: IkSolution[] = [];
+    for (const [j1, j2, j3] of arms as [number, number, number][]) {
+      // Wrist: orientation left for joints 4-6
+      const arm = multiply(multiply(dhMatrix(l1, j1), dhMatrix(l2, j2)), dhMatrix(l3, j3));
+      const wrist = multiply(invertRigid(arm), flange);
+      const [r13, r23, r33] = [wrist[0][2], wrist[1][2], wrist[2][2]];
+      const s5 = Math.hypot(r13, r23);
+
+      for (const flip of [false, true]) {
+        let th4: number;
+        let th5: number;
+        if (s5 < EPSILON) {
+          // Wrist singularity: J4 and J6 turn about the same axis, keep J4 at 0
+          if (flip) continue;
+          th4 = -dh[3].offset * DEG;
+          th5 = Math.atan2(0, r33);
+        } else {
+          const sign = flip ? -1 : 1;
+          th4 = Math.atan2(-r23 * sign, -r13 * sign);
+          th5 = Math.atan2(sign * s5, r33);
+        }
+        const j4 = wrap(th4 / DEG - dh[3].offset);
+        const j5 = wrap(th5 / DEG - dh[4].offset);
+        const rest = multiply(invertRigid(multiply(dhMatrix(dh[3], j4), dhMatrix(dh[4], j5))), wrist);
+        const j6 = wrap(Math.atan2(rest[1][0], rest[0][0]) / DEG - dh[5].offset);
+
+        for (const joints of this.turns([j1, j2, j3, j4, j5, j6])) {
+          solutions.push({ joints, config: this.configFlags(joints), withinLimits: this.withinLimits(joints) });
+        }
+      }
+    }
+    return solutions;
+  }
+
+  /**
+   * Solution with the given cfg flags (mod and turns), null if it does not exist
+   */
+  solve(pose: Pose, config: ConfigFlags, tool: Pose = IDENTITY_POSE): IkSolution | null {
+    return this.inverse(pose, tool).find(({ config: c }) =>
+      (Object.keys(config) as (keyof ConfigFlags)[]).every((key) => c[key] === config[key])
+    ) ?? null;
+  }
+
+  /**
+   * Solution within the soft limits closest to the seed joints (largest joint change smallest)
+   */
+  nearest(pose: Pose, seed: number[], tool: Pose = IDENTITY_POSE): IkSolution | null {
+    const distance = (joints: number[]) => Math.max(...joints.map((j, i) => Math.abs(j - (seed[i] ?? 0))));
+    return this.inverse(pose, tool)
+      .filter((solution) => solution.withinLimits)
+      .reduce<IkSolution | null>(
+        (best, solution) => (!best || distance(solution.joints) < distance(best.joints) ? solution : best),
+        null
+      );
+  }
+
+  /**
+   * The pose can be reached within the soft limits (in the given configuration, if any)
+   */
+  reachable(pose: Pose, tool: Pose = IDENTITY_POSE, config?: ConfigFlags): boolean {
+    if (config) {
+      return this.solve(pose, config, tool)?.withinLimits ?? false;
+    }
+    return this.inverse(pose, tool).some((solution) => solution.withinLimits);
+  }
+
+  withinLimits(joints: number[]): boolean {
+    return joints.every((joint, i) => {
+      const [min, max] = this.model.limits[i]!;
+      return joint >= min - EPSILON && joint <= max + EPSILON;
+    });
+  }
+
+  // Joints as solved, plus each combination of ±360° turns that stays within the limits
+  private turns(joints: number[]): number[][] {
+    let variants: number[][] = [[]];
+    joints.forEach((joint, i) => {
+      const [min, max] = this.model.limits[i]!;
+      const options = [joint, joint - 360, joint + 360].filter(
+        (value, n) => n === 0 || (value >= min - EPSILON && value <= max + EPSILON)
+      );
+      variants = variants.flatMap((variant) => options.map((value) => [...variant, value]));
+    });
+    return variants;
+  }
+}
@@ -9,6 +9,11 @@
  * - Response format: [id = X; Ok; data] or [id = X; FAIL]
  */
 
+import { RobotTransport, type MotionHandle } from './robotTransport';
+import { COMMAND_ID_LIMIT } from '../../shared/proxyMessages';
+import type { CommandOptions } from './commandQueue';
+import type { CurrentPosition, MotionGuard } from './motionGuard';
+
 // Command Types based on manual Section 3
 export const CommandType = {
   STATUS_IO_VAR_READ: 1,  // Read interfaces (status, IO, variables)
@@ -53,6 +58,7 @@ export type RunStatus = typeof RunStatus[keyof typeof RunStatus];
 
 // IO Types
 export const IOType = {
+  DIN: 0,       // Digital Input (read only, getMultiIOValue_Face)
   DOUT: 1,      // Digital Output
   AOUT: 2,      // Analog Output
   SIM_DI: 11,   // Virtual Digital Input
@@ -94,16 +100,6 @@ export interface CommandResponse {
   error?: string;
 }
 
-// Pending command tracking
-interface PendingCommand {
-  id: number;
-  command: string;
-  resolve: (response: CommandResponse) => void;
-  reject: (error: Error) => void;
-  timestamp: number;
-  timeout?: number;
-}
-
 // Robot position interfaces
 export interface WorldPosition {
   x: number;
@@ -206,8 +202,8 @@ export class ProtocolParser {
   static parseResponse(response: string): CommandResponse | null {
     const trimmed = response.trim();
     
-    // Match response pattern
-    const failMatch = trimmed.match(/^\[id\s*=\s*(\d+)\s*;\s*FAIL\s*\]$/i);
+    // Match response pattern (manual also documents "FALL" for failures)
+    const failMatch = trimmed.match(/^\[id\s*=\s*(\d+)\s*;\s*FA(?:IL|LL)\s*\]$/i);
     if (failMatch && failMatch[1]) {
       return {
         id: parseInt(failMatch[1]),
@@ -269,8 +265,9 @@ export class ProtocolParser {
   private static parseData(dataStr: string | undefined): any {
     if (!dataStr) return null;
     
-    // Try to parse as space-separated numbers
-    const spaceValues = dataStr.split(/\s+/).map(s => {
+    // Try to parse as space- or comma-separated numbers
+    // (getMultiIOValue_Face, CamGetPoint_s and GetToolV3 use commas)
+    const spaceValues = dataStr.split(/[\s,]+/).filter(s => s !== '').map(s => {
       const num = parseFloat(s);
       return isNaN(num) ? s : num;
     });
@@ -313,6 +310,23 @@ export class ProtocolParser {
     };
   }
 
+  /**
+   * Parse world position (legacy GetCurWPos response)
+   * Format: x y z a b c mot
+   */
+  static parseWorldPosition(values: number[]): WorldPosition | null {
+    if (values.length < 6) return null;
+    return {
+      x: values[0] ?? 0,
+      y: values[1] ?? 0,
+      z: values[2] ?? 0,
+      a: values[3] ?? 0,
+      b: values[4] ?? 0,
+      c: values[5] ?? 0,
+      mod: values[6]
+    };
+  }
+
   /**
    * Parse joint position (GetCurJPos response)
    * Format: J1 J2 J3 J4 J5 J6
@@ -400,8 +414,227 @@ export class ProtocolParser {
   }
 }
 
+// Highest IO port number accepted by the IO commands
+export const IO_INDEX_MAX = 64;
+
+// Why a command argument was rejected
+export const CommandArgumentErrorCode = {
+  ILLEGAL_CHARACTER: 'ILLEGAL_CHARACTER',  // Quote, bracket, semicolon or control character
+  EMPTY: 'EMPTY',                          // Name is empty or contains whitespace
+  NOT_A_NUMBER: 'NOT_A_NUMBER',
+  NOT_AN_INTEGER: 'NOT_AN_INTEGER',
+  OUT_OF_RANGE: 'OUT_OF_RANGE',
+  INVALID_VALUE: 'INVALID_VALUE'           // Not one of the allowed values (Scope, IOType, ...)
+} as const;
+export type CommandArgumentErrorCode = typeof CommandArgumentErrorCode[keyof typeof CommandArgumentErrorCode];
+
+/**
+ * Thrown by CommandBuilder before anything is sent
+ * when an argument would corrupt the frame or is outside its range
+ */
+export class CommandArgumentError extends Error {
+  readonly command: string;
+  readonly argument: string;
+  readonly code: CommandArgumentErrorCode;
+  readonly value: unknown;
+
+  constructor(command: string, argument: string, code: CommandArgumentErrorCode, value: unknown, detail: string) {
+    super(`${command}: invalid ${argument} ${JSON.stringify(value)} (${detail})`);
+    this.name = 'CommandArgumentError';
+    this.command = command;
+    this.argument = argument;
+    this.code = code;
+    this.value = value;
+  }
+}
+
+// Characters that would end the quoted argument or the [...; id = X] frame
+// The protocol has no escape sequence, so they are rejected instead of escaped
+const FRAME_CHARACTERS = /["[\];\u0000-\u001f\u007f]/;
+
+/**
+ * Free text inside quotes (values, error messages)
+ */
+function checkText(command: string, argument: string, value: string): string {
+  if (typeof value !== 'string') {
+    throw new CommandArgumentError(command, argument, CommandArgumentErrorCode.INVALID_VALUE, value, 'expected a string');
+  }
+  const match = value.match(FRAME_CHARACTERS);
+  if (match) {
+    throw new CommandArgumentError(
+      command, argument, CommandArgumentErrorCode.ILLEGAL_CHARACTER, value,
+      `character ${JSON.stringify(match[0])} is not allowed`
+    );
+  }
+  return value;
+}
+
+/**
+ * Variable, point, project or program name
+ */
+function checkName(command: string, argument: string, value: string): string {
+  checkText(command, argument, value);
+  if (value === '' || /\s/.test(value)) {
+    throw new CommandArgumentError(command, argument, CommandArgumentErrorCode.EMPTY, value, 'name must be non-empty without spaces');
+  }
+  return value;
+}
+
+function checkNumber(command: string, argument: string, value: number, min = -Infinity, max = Infinity): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new CommandArgumentError(command, argument, CommandArgumentErrorCode.NOT_A_NUMBER, value, 'expected a finite number');
+  }
+  if (value < min || value > max) {
+    throw new CommandArgumentError(command, argument, CommandArgumentErrorCode.OUT_OF_RANGE, value, `expected ${min}..${max}`);
+  }
+  return value;
+}
+
+function checkInteger(command: string, argument: string, value: number, min = -Infinity, max = Infinity): number {
+  checkNumber(command, argument, value);
+  if (!Number.isInteger(value)) {
+    throw new CommandArgumentError(command, argument, CommandArgumentErrorCode.NOT_AN_INTEGER, value, 'expected an integer');
+  }
+  return checkNumber(command, argument, value, min, max);
+}
+
+/**
+ * Value of one of the `as const` enums (Scope, IOType, VarType, ...)
+ */
+function checkEnum<T extends number>(command: string, argument: string, value: T, allowed: Record<string, T>): T {
+  if (!Object.values(allowed).includes(value)) {
+    throw new CommandArgumentError(
+      command, argument, CommandArgumentErrorCode.INVALID_VALUE, value,
+      `expected one of ${Object.values(allowed).join(', ')}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Underscore separated numbers: "1.1_2.2_3.3" (empty string allowed if optional)
+ */
+function checkNumberList(command: string, argument: string, value: string, optional = false): number[] {
+  checkText(command, argument, value);
+  if (value === '' && optional) return [];
+  const parts = value.split('_');
+  const numbers = parts.map(Number);
+  if (value.trim() === '' || parts.some(part => part.trim() === '') || numbers.some(n => !Number.isFinite(n))) {
+    throw new CommandArgumentError(command, argument, CommandArgumentErrorCode.NOT_A_NUMBER, value, 'expected numbers separated by "_"');
+  }
+  return numbers;
+}
+
+/**
+ * Motion parameter string, speed (percent of global speed) at speedIndex
+ */
+function checkMotionParam(command: string, value: string, speedIndex: number): string {
+  const numbers = checkNumberList(command, 'param', value);
+  const speed = numbers[speedIndex];
+  if (speed !== undefined) checkNumber(command, 'param speed', speed, 1, 100);
+  return value;
+}
+
+/**
+ * Value for SetVarV3 / CamSetVar_1_s, format depends on the variable type
+ */
+function checkVarValue(command: string, varType: number, value: string): string {
+  if (varType === VarType.STRING) return checkText(command, 'value', value);
+  if (varType === VarType.INT || varType === VarType.REAL) {
+    checkText(command, 'value', value);
+    if (value.trim() === '' || !Number.isFinite(Number(value))) {
+      throw new CommandArgumentError(command, 'value', CommandArgumentErrorCode.NOT_A_NUMBER, value, 'expected a number');
+    }
+    if (varType === VarType.INT && !Number.isInteger(Number(value))) {
+      throw new CommandArgumentError(command, 'value', CommandArgumentErrorCode.NOT_AN_INTEGER, value, 'expected an integer');
+    }
+    return value;
+  }
+  checkNumberList(command, 'value', value);
+  return value;
+}
+
+function checkIOIndex(command: string, ioIndex: number): number {
+  return checkInteger(command, 'ioIndex', ioIndex, 1, IO_INDEX_MAX);
+}
+
+/**
+ * Writable IO type and a value it accepts (digital ports only take 0/1)
+ */
+function checkIOValue(command: string, ioType: IOType, value: number): number {
+  checkEnum(command, 'ioType', ioType, IOType);
+  if (ioType === IOType.DIN) {
+    throw new CommandArgumentError(command, 'ioType', CommandArgumentErrorCode.INVALID_VALUE, ioType, 'digital inputs are read only');
+  }
+  if (ioType === IOType.DOUT || ioType === IOType.SIM_DI || ioType === IOType.SIM_DOUT) {
+    return checkInteger(command, 'value', value, 0, 1);
+  }
+  return checkNumber(command, 'value', value);
+}
+
+/**
+ * IO range of one type: startIndex .. startIndex + count - 1
+ */
+function checkIORange(command: string, ioType: IOType, startIndex: number, count: number) {
+  checkEnum(command, 'ioType', ioType, IOType);
+  checkIOIndex(command, startIndex);
+  checkInteger(command, 'count', count, 1, IO_INDEX_MAX - startIndex + 1);
+}
+
+/**
+ * Values for setMultiIOValue_Face: one IO type, consecutive ports
+ * Returns them ordered by port
+ */
+function checkIORun(command: string, values: IOValue[]): IOValue[] {
+  const first = values[0];
+  if (!first) {
+    throw new CommandArgumentError(command, 'values', CommandArgumentErrorCode.EMPTY, values, 'at least one IO value required');
+  }
+  const sorted = [...values].sort((a, b) => a.index - b.index);
+  sorted.forEach((io, i) => {
+    checkIOIndex(command, io.index);
+    checkIOValue(command, io.ioType, io.value);
+    if (io.ioType !== first.ioType) {
+      throw new CommandArgumentError(
+        command, 'ioType', CommandArgumentErrorCode.INVALID_VALUE, io.ioType,
+        `all values must have ioType ${first.ioType} (use groupIOValues)`
+      );
+    }
+    if (io.index !== sorted[0]!.index + i) {
+      throw new CommandArgumentError(
+        command, 'index', CommandArgumentErrorCode.INVALID_VALUE, io.index,
+        'ports must be consecutive without duplicates (use groupIOValues)'
+      );
+    }
+  });
+  return sorted;
+}
+
+/**
+ * Split IO values into runs accepted by setMultiIOValue_Face
+ * (same IO type, consecutive ports); a later value for the same port wins
+ */
+export function groupIOValues(values: IOValue[]): IOValue[][] {
+  const byPort = new Map<string, IOValue>();
+  for (const io of values) byPort.set(`${io.ioType}:${io.index}`, io);
+  const sorted = [...byPort.values()].sort((a, b) => a.ioType - b.ioType || a.index - b.index);
+
+  const groups: IOValue[][] = [];
+  for (const io of sorted) {
+    const group = groups[groups.length - 1];
+    const last = group?.[group.length - 1];
+    if (group && last && last.ioType === io.ioType && last.index + 1 === io.index) {
+      group.push(io);
+    } else {
+      groups.push([io]);
+    }
+  }
+  return groups;
+}
+
 /**
  * Command Builder - Build robot commands according to protocol
+ * Arguments are validated, invalid ones throw CommandArgumentError
  */
 export class CommandBuilder {
   private static commandId = 0;
@@ -410,7 +643,7 @@ export class CommandBuilder {
    * Generate unique command ID
    */
   static generateId(): number {
-    this.commandId = (this.commandId + 1) % 10000;
+    this.commandId = (this.commandId + 1) % COMMAND_ID_LIMIT;
     return this.commandId;
   }
 
@@ -429,6 +662,10 @@ export class CommandBuilder {
    * SetPointPos_1("P1","1.1_2.2_3.3_4.4_5.5_6.6",0,2)
    */
   static setPointPos(pName: string, value: string, type: number, scope: Scope): string {
+    checkName('SetPointPos_1', 'pName', pName);
+    checkNumberList('SetPointPos_1', 'value', value);
+    checkInteger('SetPointPos_1', 'type', type, 0, 1);
+    checkEnum('SetPointPos_1', 'scope', scope, Scope);
     return this.formatCommand(`SetPointPos_1("${pName}","${value}",${type},${scope})`);
   }
 
@@ -437,6 +674,8 @@ export class CommandBuilder {
    * CamGetPoint_s("P1",1)
    */
   static getPointPos(pointName: string, scope: Scope): string {
+    checkName('CamGetPoint_s', 'pointName', pointName);
+    checkEnum('CamGetPoint_s', 'scope', scope, Scope);
     return this.formatCommand(`CamGetPoint_s("${pointName}",${scope})`);
   }
 
@@ -447,6 +686,9 @@ export class CommandBuilder {
    * CamSetVar_1_s("Result","1.0",1,2)
    */
   static setVarLegacy(varName: string, value: string, type: number, scope: Scope): string {
+    checkName('CamSetVar_1_s', 'varName', varName);
+    checkVarValue('CamSetVar_1_s', checkInteger('CamSetVar_1_s', 'type', type, VarType.INT, VarType.REAL), value);
+    checkEnum('CamSetVar_1_s', 'scope', scope, Scope);
     return this.formatCommand(`CamSetVar_1_s("${varName}","${value}",${type},${scope})`);
   }
 
@@ -455,6 +697,9 @@ export class CommandBuilder {
    * CamReadVar_s("Result",2,2)
    */
   static getVarLegacy(varName: string, type: number, scope: Scope): string {
+    checkName('CamReadVar_s', 'varName', varName);
+    checkInteger('CamReadVar_s', 'type', type, VarType.INT, VarType.REAL);
+    checkEnum('CamReadVar_s', 'scope', scope, Scope);
     return this.formatCommand(`CamReadVar_s("${varName}",${type},${scope})`);
   }
 
@@ -463,6 +708,9 @@ export class CommandBuilder {
    * GetVarV3(1,"INT0",1)
    */
   static getVarV3(varType: VarType, varName: string, scope: Scope): string {
+    checkEnum('GetVarV3', 'varType', varType, VarType);
+    checkName('GetVarV3', 'varName', varName);
+    checkEnum('GetVarV3', 'scope', scope, Scope);
     return this.formatCommand(`GetVarV3(${varType},"${varName}",${scope})`);
   }
 
@@ -471,6 +719,10 @@ export class CommandBuilder {
    * SetVarV3(1,"INT0","65",1)
    */
   static setVarV3(varType: VarType, varName: string, value: string, scope: Scope): string {
+    checkEnum('SetVarV3', 'varType', varType, VarType);
+    checkName('SetVarV3', 'varName', varName);
+    checkVarValue('SetVarV3', varType, value);
+    checkEnum('SetVarV3', 'scope', scope, Scope);
     return this.formatCommand(`SetVarV3(${varType},"${varName}","${value}",${scope})`);
   }
 
@@ -507,6 +759,8 @@ export class CommandBuilder {
    * SetIOValue(11,1,1)
    */
   static setIOValue(ioIndex: number, ioType: IOType, value: number): string {
+    checkIOIndex('SetIOValue', ioIndex);
+    checkIOValue('SetIOValue', ioType, value);
     return this.formatCommand(`SetIOValue(${ioIndex},${ioType},${value})`);
   }
 
@@ -515,6 +769,7 @@ export class CommandBuilder {
    * IOGetDout(1)
    */
   static ioGetDout(ioIndex: number): string {
+    checkIOIndex('IOGetDout', ioIndex);
     return this.formatCommand(`IOGetDout(${ioIndex})`);
   }
 
@@ -523,6 +778,7 @@ export class CommandBuilder {
    * IOGetDin(2)
    */
   static ioGetDin(ioIndex: number): string {
+    checkIOIndex('IOGetDin', ioIndex);
     return this.formatCommand(`IOGetDin(${ioIndex})`);
   }
 
@@ -531,6 +787,7 @@ export class CommandBuilder {
    * IOGetAout(1)
    */
   static ioGetAout(ioIndex: number): string {
+    checkIOIndex('IOGetAout', ioIndex);
     return this.formatCommand(`IOGetAout(${ioIndex})`);
   }
 
@@ -539,6 +796,7 @@ export class CommandBuilder {
    * IOGetAin(1)
    */
   static ioGetAin(ioIndex: number): string {
+    checkIOIndex('IOGetAin', ioIndex);
     return this.formatCommand(`IOGetAin(${ioIndex})`);
   }
 
@@ -547,6 +805,7 @@ export class CommandBuilder {
    * IOGetSimDout(1)
    */
   static ioGetSimDout(ioIndex: number): string {
+    checkIOIndex('IOGetSimDout', ioIndex);
     return this.formatCommand(`IOGetSimDout(${ioIndex})`);
   }
 
@@ -555,6 +814,7 @@ export class CommandBuilder {
    * IOGetSimDin(2)
    */
   static ioGetSimDin(ioIndex: number): string {
+    checkIOIndex('IOGetSimDin', ioIndex);
     return this.formatCommand(`IOGetSimDin(${ioIndex})`);
   }
 
@@ -563,6 +823,7 @@ export class CommandBuilder {
    * IOGetSimAout(1)
    */
   static ioGetSimAout(ioIndex: number): string {
+    checkIOIndex('IOGetSimAout', ioIndex);
     return this.formatCommand(`IOGetSimAout(${ioIndex})`);
   }
 
@@ -571,23 +832,29 @@ export class CommandBuilder {
    * IOGetSimAin(1)
    */
   static ioGetSimAin(ioIndex: number): string {
+    checkIOIndex('IOGetSimAin', ioIndex);
     return this.formatCommand(`IOGetSimAin(${ioIndex})`);
   }
 
   /**
-   * 3.48 Set multiple IO values
-   * setMultiIOValue(...)
+   * 3.48 Set multiple IO values (one IO type, consecutive ports)
+   * setMultiIOValue_Face("1.0_0.0_1.0",1,12,3)
    */
-  static setMultiIOValue(params: string): string {
-    return this.formatCommand(`setMultiIOValue(${params})`);
+  static setMultiIOValue(values: IOValue[]): string {
+    const run = checkIORun('setMultiIOValue_Face', values);
+    const first = run[0]!;
+    // Manual: port values must be given as floating point numbers
+    const ioStr = run.map(io => (Number.isInteger(io.value) ? io.value.toFixed(1) : String(io.value))).join('_');
+    return this.formatCommand(`setMultiIOValue_Face("${ioStr}",${first.index},${first.ioType},${run.length})`);
   }
 
   /**
    * 3.49 Get multiple IO values
-   * GetMultiIOValue(...)
+   * getMultiIOValue_Face(1,14,10)
    */
-  static getMultiIOValue(params: string): string {
-    return this.formatCommand(`GetMultiIOValue(${params})`);
+  static getMultiIOValue(ioType: IOType, startIndex: number, count: number): string {
+    checkIORange('getMultiIOValue_Face', ioType, startIndex, count);
+    return this.formatCommand(`getMultiIOValue_Face(${startIndex},${ioType},${count})`);
   }
 
   // ========== ROBOT MODE COMMANDS (Section 3.9-3.10) ==========
@@ -597,6 +864,7 @@ export class CommandBuilder {
    * changemode_IFace(0)
    */
   static changeMode(mode: RobotMode): string {
+    checkEnum('changemode_IFace', 'mode', mode, RobotMode);
     return this.formatCommand(`changemode_IFace(${mode})`);
   }
 
@@ -615,6 +883,7 @@ export class CommandBuilder {
    * setGoableSpeed_IFace(20)
    */
   static setGoableSpeed(speed: number): string {
+    checkInteger('setGoableSpeed_IFace', 'speed', speed, 1, 100);
     return this.formatCommand(`setGoableSpeed_IFace(${speed})`);
   }
 
@@ -623,6 +892,7 @@ export class CommandBuilder {
    * setRunMode_IFace(1)
    */
   static setRunMode(mode: RunMode): string {
+    checkEnum('setRunMode_IFace', 'mode', mode, RunMode);
     return this.formatCommand(`setRunMode_IFace(${mode})`);
   }
 
@@ -683,6 +953,8 @@ export class CommandBuilder {
    * loadUserPrjProg_IFace("estun","main")
    */
   static loadUserPrjProg(projName: string, progName: string): string {
+    checkName('loadUserPrjProg_IFace', 'projName', projName);
+    checkName('loadUserPrjProg_IFace', 'progName', progName);
     return this.formatCommand(`loadUserPrjProg_IFace("${projName}","${progName}")`);
   }
 
@@ -691,6 +963,7 @@ export class CommandBuilder {
    * UnloadUserPrj_IFace("estun")
    */
   static unloadUserPrj(projName: string): string {
+    checkName('UnloadUserPrj_IFace', 'projName', projName);
     return this.formatCommand(`UnloadUserPrj_IFace("${projName}")`);
   }
 
@@ -699,6 +972,8 @@ export class CommandBuilder {
    * UnloadUserProg_IFace("estun","main")
    */
   static unloadUserProg(projName: string, progName: string): string {
+    checkName('UnloadUserProg_IFace', 'projName', projName);
+    checkName('UnloadUserProg_IFace', 'progName', progName);
     return this.formatCommand(`UnloadUserProg_IFace("${projName}","${progName}")`);
   }
 
@@ -723,6 +998,7 @@ export class CommandBuilder {
    * SetPc_IFace(6)
    */
   static setPc(index: number): string {
+    checkInteger('SetPc_IFace', 'index', index, 0);
     return this.formatCommand(`SetPc_IFace(${index})`);
   }
 
@@ -751,6 +1027,7 @@ export class CommandBuilder {
    * SetCoordType_IFace(0)
    */
   static setCoordType(type: CoordType): string {
+    checkEnum('SetCoordType_IFace', 'type', type, CoordType);
     return this.formatCommand(`SetCoordType_IFace(${type})`);
   }
 
@@ -767,6 +1044,8 @@ export class CommandBuilder {
    * SetTool_IFace(1,"TOOL0")
    */
   static setTool(scope: Scope, name: string): string {
+    checkEnum('SetTool_IFace', 'scope', scope, Scope);
+    checkName('SetTool_IFace', 'name', name);
     return this.formatCommand(`SetTool_IFace(${scope},"${name}")`);
   }
 
@@ -775,6 +1054,8 @@ export class CommandBuilder {
    * SetCoord_IFace(0,"USERCOOR0")
    */
   static setCoord(scope: Scope, name: string): string {
+    checkEnum('SetCoord_IFace', 'scope', scope, Scope);
+    checkName('SetCoord_IFace', 'name', name);
     return this.formatCommand(`SetCoord_IFace(${scope},"${name}")`);
   }
 
@@ -801,6 +1082,8 @@ export class CommandBuilder {
    * JogMotion_IFace(1,1)
    */
   static jogMotion(axisId: number, moveDir: number): string {
+    checkInteger('JogMotion_IFace', 'axisId', axisId, 1, 6);
+    checkInteger('JogMotion_IFace', 'moveDir', moveDir);
     return this.formatCommand(`JogMotion_IFace(${axisId},${moveDir})`);
   }
 
@@ -819,6 +1102,9 @@ export class CommandBuilder {
    * MoveToSelectPoint_IFace(1,"0_0_0_0","0_50")
    */
   static moveToSelectPoint(moveType: number, pointPos: string, param: string): string {
+    checkInteger('MoveToSelectPoint_IFace', 'moveType', moveType, 1, 2);
+    checkNumberList('MoveToSelectPoint_IFace', 'pointPos', pointPos);
+    checkMotionParam('MoveToSelectPoint_IFace', param, 1);
     return this.formatCommand(`MoveToSelectPoint_IFace(${moveType},"${pointPos}","${param}")`);
   }
 
@@ -827,6 +1113,9 @@ export class CommandBuilder {
    * MoveToSelectPointb_IFace(1,"0_0_0_0","0_50_100")
    */
   static moveToSelectPointb(moveType: number, pointPos: string, param: string): string {
+    checkInteger('MoveToSelectPointb_IFace', 'moveType', moveType, 1, 2);
+    checkNumberList('MoveToSelectPointb_IFace', 'pointPos', pointPos);
+    checkMotionParam('MoveToSelectPointb_IFace', param, 1);
     return this.formatCommand(`MoveToSelectPointb_IFace(${moveType},"${pointPos}","${param}")`);
   }
 
@@ -843,6 +1132,8 @@ export class CommandBuilder {
    * TeachSelectPoint_IFace("P10",2)
    */
   static teachSelectPoint(pName: string, scopeType: Scope): string {
+    checkName('TeachSelectPoint_IFace', 'pName', pName);
+    checkEnum('TeachSelectPoint_IFace', 'scopeType', scopeType, Scope);
     return this.formatCommand(`TeachSelectPoint_IFace("${pName}",${scopeType})`);
   }
 
@@ -851,6 +1142,9 @@ export class CommandBuilder {
    * MoveWithSearch_IFace(1, "0_0_0_0_90_0_0", "10_20_2_10_1")
    */
   static moveWithSearch(moveType: number, pointPos: string, param: string): string {
+    checkInteger('MoveWithSearch_IFace', 'moveType', moveType, 1, 2);
+    checkNumberList('MoveWithSearch_IFace', 'pointPos', pointPos);
+    checkMotionParam('MoveWithSearch_IFace', param, 0);
     return this.formatCommand(`MoveWithSearch_IFace(${moveType},"${pointPos}","${param}")`);
   }
 
@@ -864,6 +1158,10 @@ export class CommandBuilder {
    * param: "height_speed_blend_accuracy"
    */
   static movePointV3(moveType: number, pointPos: string, cfg: string, param: string): string {
+    checkInteger('MovePointV3', 'moveType', moveType, 1, 3);
+    checkNumberList('MovePointV3', 'pointPos', pointPos);
+    checkNumberList('MovePointV3', 'cfg', cfg, true);
+    checkMotionParam('MovePointV3', param, 1);
     return this.formatCommand(`MovePointV3(${moveType},"${pointPos}","${cfg}","${param}")`);
   }
 
@@ -882,6 +1180,8 @@ export class CommandBuilder {
    * SetPayload_IFace(1,"PAYLOAD0")
    */
   static setPayload(scope: Scope, payloadName: string): string {
+    checkEnum('SetPayload_IFace', 'scope', scope, Scope);
+    checkName('SetPayload_IFace', 'payloadName', payloadName);
     return this.formatCommand(`SetPayload_IFace(${scope},"${payloadName}")`);
   }
 
@@ -890,25 +1190,31 @@ export class CommandBuilder {
    * SetRTtoErr_IFace("testerror100",9999)
    */
   static setRTtoErr(strValue: string, errNum: number): string {
+    checkText('SetRTtoErr_IFace', 'strValue', strValue);
+    checkInteger('SetRTtoErr_IFace', 'errNum', errNum);
     return this.formatCommand(`SetRTtoErr_IFace("${strValue}",${errNum})`);
   }
 
   // ========== SOFT LIMITS (Section 3.46-3.47) ==========
 
   /**
-   * 3.46 Get soft limits
-   * GetSoftLimits()
+   * 3.46 Get soft limits of one axis
+   * GetSoftLimits(6)
    */
-  static getSoftLimits(): string {
-    return this.formatCommand('GetSoftLimits()');
+  static getSoftLimits(axis: number): string {
+    checkInteger('GetSoftLimits', 'axis', axis, 1);
+    return this.formatCommand(`GetSoftLimits(${axis})`);
   }
 
   /**
-   * 3.47 Set soft limits
-   * SetSoftLimits(...)
+   * 3.47 Set soft limits of one axis (degrees)
+   * SetSoftLimits(6,-10,20)
    */
-  static setSoftLimits(params: string): string {
-    return this.formatCommand(`SetSoftLimits(${params})`);
+  static setSoftLimits(limit: SoftLimit): string {
+    checkInteger('SetSoftLimits', 'axis', limit.axis, 1);
+    checkNumber('SetSoftLimits', 'min', limit.min);
+    checkNumber('SetSoftLimits', 'max', limit.max, limit.min);
+    return this.formatCommand(`SetSoftLimits(${limit.axis},${limit.min},${limit.max})`);
   }
 
   // ========== UTILITY COMMANDS (Section 3.50) ==========
@@ -922,18 +1228,256 @@ export class CommandBuilder {
   }
 }
 
+// Active tool / user coordinate reference (GetToolV3, GetUserCoordV3)
+export interface FrameRef {
+  name: string;
+  scope: Scope;
+}
+
+// Joint soft limits of one axis in degrees (GetSoftLimits, SetSoftLimits)
+export interface SoftLimit {
+  axis: number;
+  min: number;
+  max: number;
+}
+
+// Value of one IO port (setMultiIOValue_Face, getMultiIOValue_Face)
+export interface IOValue {
+  ioType: IOType;
+  index: number;
+  value: number;
+}
+
+// Variable value per VarType (GetVarV3)
+export interface VarValueTypes {
+  [VarType.INT]: number;
+  [VarType.REAL]: number;
+  [VarType.APOS]: APOSData;
+  [VarType.CPOS]: CPOSData;
+  [VarType.STRING]: string;
+  [VarType.ARRAY]: number[];
+  [VarType.CPOS_WITH_CFG]: CPOSData;
+  [VarType.TOOL]: ToolData;
+  [VarType.USERCOORD]: UserCoordData;
+  [VarType.TOOL_WITH_PAYLOAD]: ToolData;
+}
+export type VarValue<T extends VarType = VarType> = VarValueTypes[T];
+
+// Commands built by CommandBuilder
+export type BuilderCommand = Exclude<keyof typeof CommandBuilder, 'prototype' | 'generateId' | 'formatCommand'>;
+export type BuilderArgs<K extends BuilderCommand> = Parameters<typeof CommandBuilder[K]>;
+type ResponseDecoder<K extends BuilderCommand> = (response: CommandResponse, ...args: BuilderArgs<K>) => unknown;
+
+/**
+ * Return response data or throw if the robot answered FAIL
+ */
+function okData(response: CommandResponse): any {
+  if (!response.success) {
+    throw new Error(`Command ${response.id} failed: ${response.error || 'Command failed'}`);
+  }
+  return response.data;
+}
+
+function toValues(data: any): (number | string)[] {
+  if (data === null || data === undefined) return [];
+  return Array.isArray(data) ? data : [data];
+}
+
+function decodeAck(response: CommandResponse): void {
+  okData(response);
+}
+
+function decodeNumbers(response: CommandResponse): number[] {
+  const values = toValues(okData(response));
+  if (values.some(v => typeof v !== 'number')) {
+    throw new Error(`Invalid numeric data: ${values.join(' ')}`);
+  }
+  return values as number[];
+}
+
+function decodeNumber(response: CommandResponse): number {
+  const value = decodeNumbers(response)[0];
+  if (value === undefined) {
+    throw new Error(`Missing value in response ${response.id}`);
+  }
+  return value;
+}
+
+function decodeBoolean(response: CommandResponse): boolean {
+  return decodeNumber(response) !== 0;
+}
+
+function decodeString(response: CommandResponse): string {
+  return toValues(okData(response)).join(' ');
+}
+
+function decodeFrameRef(response: CommandResponse): FrameRef {
+  const [name, scope] = toValues(okData(response));
+  if (name === undefined) {
+    throw new Error(`Missing frame name in response ${response.id}`);
+  }
+  return { name: String(name), scope: (typeof scope === 'number' ? scope : Scope.GLOBAL) as Scope };
+}
+
+function decodeParsed<T>(values: number[], parse: (values: number[]) => T | null, what: string): T {
+  const parsed = parse(values);
+  if (!parsed) {
+    throw new Error(`Invalid ${what} data`);
+  }
+  return parsed;
+}
+
+function decodeVar(response: CommandResponse, varType: VarType): VarValue {
+  switch (varType) {
+    case VarType.INT:
+    case VarType.REAL:
+      return decodeNumber(response);
+    case VarType.STRING:
+      return decodeString(response);
+    case VarType.ARRAY:
+      return decodeNumbers(response);
+    case VarType.APOS:
+      return decodeParsed(decodeNumbers(response), v => ProtocolParser.parseAPOS(v), 'APOS');
+    case VarType.CPOS:
+    case VarType.CPOS_WITH_CFG:
+      return decodeParsed(decodeNumbers(response), v => ProtocolParser.parseWorldPositionV3(v), 'CPOS');
+    case VarType.TOOL:
+    case VarType.TOOL_WITH_PAYLOAD:
+      return decodeParsed(decodeNumbers(response), v => ProtocolParser.parseTool(v), 'TOOL');
+    case VarType.USERCOORD:
+      return decodeParsed(decodeNumbers(response), v => ProtocolParser.parseUserCoord(v), 'USERCOORD');
+  }
+}
+
+/**
+ * CamGetPoint_s answers APOS (a1..a6) or CPOS (x y z a b c mode cf1..cf6)
+ */
+function decodePoint(response: CommandResponse): APOSData | CPOSData {
+  const values = decodeNumbers(response);
+  if (values.length >= 13) {
+    const [x, y, z, a, b, c, mod, cf1, cf2, cf3, cf4, cf5, cf6] = values as [
+      number, number, number, number, number, number, number,
+      number, number, number, number, number, number
+    ];
+    return { mod, cf1, cf2, cf3, cf4, cf5, cf6, x, y, z, a, b, c };
+  }
+  return decodeParsed(values, v => ProtocolParser.parseAPOS(v), 'APOS');
+}
+
+/**
+ * Response decoders - one per CommandBuilder command
+ * Decoder receives the response and the arguments the command was built with
+ * Throws if the robot answered FAIL or the data has the wrong shape
+ */
+export const ResponseDecoders = {
+  setPointPos: decodeAck,
+  getPointPos: decodePoint,
+  setVarLegacy: decodeAck,
+  getVarLegacy: (response: CommandResponse) => decodeNumber(response),
+  getVarV3: (response: CommandResponse, varType: VarType) => decodeVar(response, varType),
+  setVarV3: decodeAck,
+  getCurJPos: (response: CommandResponse) =>
+    decodeParsed(decodeNumbers(response), v => ProtocolParser.parseJointPosition(v), 'joint position'),
+  getCurWPos: (response: CommandResponse) =>
+    decodeParsed(decodeNumbers(response), v => ProtocolParser.parseWorldPosition(v), 'world position'),
+  getCurWPosV3: (response: CommandResponse) =>
+    decodeParsed(decodeNumbers(response), v => ProtocolParser.parseWorldPositionV3(v), 'world position'),
+  setIOValue: decodeAck,
+  ioGetDout: decodeNumber,
+  ioGetDin: decodeNumber,
+  ioGetAout: decodeNumber,
+  ioGetAin: decodeNumber,
+  ioGetSimDout: decodeNumber,
+  ioGetSimDin: decodeNumber,
+  ioGetSimAout: decodeNumber,
+  ioGetSimAin: decodeNumber,
+  setMultiIOValue: decodeAck,
+  getMultiIOValue: (response: CommandResponse, ioType: IOType, startIndex: number, count: number): IOValue[] => {
+    const values = decodeNumbers(response);
+    if (values.length < count) {
+      throw new Error(`Expected ${count} IO values, got ${values.length}`);
+    }
+    return values.slice(0, count).map((value, i) => ({ ioType, index: startIndex + i, value }));
+  },
+  changeMode: decodeAck,
+  getCurSysMode: (response: CommandResponse) => decodeNumber(response) as RobotMode,
+  setGoableSpeed: decodeAck,
+  setRunMode: decodeAck,
+  getGoableSpeed: decodeNumber,
+  getRobotRunStatus: (response: CommandResponse) => decodeNumber(response) as RunStatus,
+  resetErrorId: decodeAck,
+  getErrorId: decodeNumber,
+  startRun: decodeAck,
+  stopRun: decodeAck,
+  loadUserPrjProg: decodeAck,
+  unloadUserPrj: decodeAck,
+  unloadUserProg: decodeAck,
+  isRobotMoving: decodeBoolean,
+  // Ok = project loaded, FAIL = nothing loaded
+  isProgramLoaded: (response: CommandResponse) => response.success,
+  setPc: decodeAck,
+  setMotServoStatus: decodeAck,
+  getServoSts: decodeBoolean,
+  setCoordType: decodeAck,
+  getCurCoordType: (response: CommandResponse) => decodeNumber(response) as CoordType,
+  setTool: decodeAck,
+  setCoord: decodeAck,
+  getToolV3: decodeFrameRef,
+  getUserCoordV3: decodeFrameRef,
+  jogMotion: decodeAck,
+  jogMotionStop: decodeAck,
+  moveToSelectPoint: decodeAck,
+  moveToSelectPointb: decodeAck,
+  stopDestPosMotion: decodeAck,
+  teachSelectPoint: decodeAck,
+  moveWithSearch: decodeAck,
+  movePointV3: decodeAck,
+  moveFinish: decodeAck,
+  setPayload: decodeAck,
+  setRTtoErr: decodeAck,
+  getSoftLimits: (response: CommandResponse, axis: number): SoftLimit => {
+    const [min, max] = decodeNumbers(response);
+    if (min === undefined || max === undefined) {
+      throw new Error(`Invalid soft limit data for axis ${axis}`);
+    }
+    return { axis, min, max };
+  },
+  setSoftLimits: decodeAck,
+  clear3dCmds: decodeAck
+} satisfies { [K in BuilderCommand]: ResponseDecoder<K> };
+
+export type DecodedResponse<K extends BuilderCommand> = ReturnType<typeof ResponseDecoders[K]>;
+
+/**
+ * Build command frame by CommandBuilder method name
+ */
+export function buildCommand<K extends BuilderCommand>(name: K, ...args: BuilderArgs<K>): string {
+  const builder = CommandBuilder[name] as (...builderArgs: BuilderArgs<K>) => string;
+  return builder.apply(CommandBuilder, args);
+}
+
+/**
+ * Decode response of a command built with the same name and arguments
+ */
+export function decodeResponse<K extends BuilderCommand>(
+  name: K,
+  response: CommandResponse,
+  ...args: BuilderArgs<K>
+): DecodedResponse<K> {
+  const decoder = ResponseDecoders[name] as unknown as
+    (response: CommandResponse, ...decoderArgs: BuilderArgs<K>) => DecodedResponse<K>;
+  return decoder(response, ...args);
+}
+
 /**
  * Robot Protocol Client
- * Manages TCP connection and command queue
+ * High-level commands on top of the shared RobotTransport
  */
 export class RobotProtocolClient {
-  private socket: WebSocket | null = null;
-  private pendingCommands: Map<number, PendingCommand> = new Map();
-  private commandTimeout: number = 5000; // 5 seconds default timeout
-  private isConnected: boolean = false;
-  private serverUrl: string;
+  private transport: RobotTransport;
   private robotIp: string;
   private robotPort: number;
+  private unsubscribe: (() => void)[] = [];
 
   // Event callbacks
   onConnect?: () => void;
@@ -941,166 +1485,96 @@ export class RobotProtocolClient {
   onResponse?: (response: CommandResponse) => void;
   onError?: (error: Error) => void;
 
-  constructor(serverUrl: string, robotIp: string, robotPort: number) {
-    this.serverUrl = serverUrl;
+  /**
+   * With a guard, every move on the transport is checked against it before it is sent
+   */
+  constructor(transport: RobotTransport, robotIp: string, robotPort: number, guard: MotionGuard | null = null) {
+    this.transport = transport;
     this.robotIp = robotIp;
     this.robotPort = robotPort;
+    if (guard) {
+      transport.setMotionCheck(guard.motionCheck(() => this.readPosition()));
+    }
   }
 
   /**
    * Connect to robot via proxy server
    */
-  connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        this.socket = new WebSocket(this.serverUrl);
-
-        this.socket.onopen = () => {
-          console.log('[Protocol] WebSocket connected');
-          this.isConnected = true;
-          
-          // Send handshake to proxy
-          this.socket?.send(JSON.stringify({
-            cmd: 'CONNECT',
-            target: { ip: this.robotIp, port: this.robotPort }
-          }));
-
-          this.onConnect?.();
-          resolve();
-        };
-
-        this.socket.onclose = (event) => {
-          console.log('[Protocol] WebSocket closed', event.code, event.reason);
-          this.isConnected = false;
-          this.rejectAllPending('Connection closed');
-          this.onDisconnect?.(event.reason);
-        };
-
-        this.socket.onerror = (error) => {
-          console.error('[Protocol] WebSocket error', error);
-          this.onError?.(new Error('WebSocket connection error'));
-          reject(new Error('WebSocket connection error'));
-        };
-
-        this.socket.onmessage = (event) => {
-          this.handleMessage(event.data);
-        };
-
-      } catch (error) {
-        reject(error);
-      }
+  async connect(): Promise<void> {
+    this.unsubscribe.forEach(off => off());
+    this.unsubscribe = [
+      // Handshake is repeated after every automatic reconnect
+      this.transport.on('open', () => this.handshake()),
+      this.transport.on('close', (event) => {
+        console.log('[Protocol] WebSocket closed', event.code, event.reason);
+        this.onDisconnect?.(event.reason);
+      }),
+      this.transport.on('error', (error) => {
+        console.error('[Protocol] WebSocket error', error);
+        this.onError?.(error);
+      }),
+      this.transport.on('message', (message) => {
+        if (message.type === 'ROBOT_RESPONSE') {
+          const response = ProtocolParser.parseResponse(message.response || '');
+          if (response) this.onResponse?.(response);
+        }
+      })
+    ];
+
+    if (this.transport.connected) {
+      this.handshake();
+    } else {
+      await this.transport.connect();
+    }
+  }
+
+  /**
+   * Send handshake to proxy
+   */
+  private handshake() {
+    console.log('[Protocol] WebSocket connected');
+    this.transport.send({
+      type: 'CONNECT',
+      target: { ip: this.robotIp, port: this.robotPort }
     });
+    this.onConnect?.();
   }
 
   /**
    * Disconnect from robot
    */
   disconnect() {
-    if (this.socket) {
-      this.socket.close();
-      this.socket = null;
-    }
-    this.isConnected = false;
-    this.rejectAllPending('Disconnected');
+    this.transport.close();
+    this.unsubscribe.forEach(off => off());
+    this.unsubscribe = [];
   }
 
   /**
    * Check if connected
    */
   get connected(): boolean {
-    return this.isConnected && this.socket?.readyState === WebSocket.OPEN;
+    return this.transport.connected;
   }
 
   /**
-   * Send command to robot
+   * Send command to robot through the command queue
+   * Rejects if the robot answers FAIL
    */
-  sendCommand(command: string, timeout?: number): Promise<CommandResponse> {
-    return new Promise((resolve, reject) => {
-      if (!this.connected) {
-        reject(new Error('Not connected to robot'));
-        return;
-      }
-
-      // Extract command ID from the command string
-      const idMatch = command.match(/id=(\d+)/);
-      if (!idMatch || !idMatch[1]) {
-        reject(new Error('Invalid command format - missing ID'));
-        return;
-      }
-
-      const id = parseInt(idMatch[1]);
-
-      const pending: PendingCommand = {
-        id,
-        command,
-        resolve,
-        reject,
-        timestamp: Date.now(),
-        timeout: timeout || this.commandTimeout
-      };
-
-      this.pendingCommands.set(id, pending);
-
-      // Send command through proxy
-      this.socket?.send(JSON.stringify({
-        type: 'ROBOT_COMMAND',
-        command
-      }));
-
-      // Set timeout
-      setTimeout(() => {
-        if (this.pendingCommands.has(id)) {
-          this.pendingCommands.delete(id);
-          reject(new Error(`Command timeout: ${command}`));
-        }
-      }, pending.timeout);
-    });
-  }
-
-  /**
-   * Handle incoming message from server
-   */
-  private handleMessage(data: string) {
-    try {
-      const message = JSON.parse(data);
-
-      if (message.type === 'ROBOT_RESPONSE') {
-        // Parse robot response
-        const responseStr = message.response || '';
-        const response = ProtocolParser.parseResponse(responseStr);
-        if (response) {
-          const pending = this.pendingCommands.get(response.id);
-          if (pending) {
-            this.pendingCommands.delete(response.id);
-            if (response.success) {
-              pending.resolve(response);
-            } else {
-              pending.reject(new Error(response.error || 'Command failed'));
-            }
-            this.onResponse?.(response);
-          }
-        }
-      } else if (message.type === 'STATUS') {
-        // Handle status updates
-        if (!message.connected) {
-          this.isConnected = false;
-          this.rejectAllPending(message.error || 'Robot disconnected');
-        }
-      }
-    } catch (error) {
-      console.error('[Protocol] Message parse error:', error);
-      this.onError?.(error as Error);
+  async sendCommand(command: string, options?: CommandOptions): Promise<CommandResponse> {
+    const response = await this.transport.sendCommand(command, options);
+    if (!response.success) {
+      throw new Error(response.error || 'Command failed');
     }
+    return response;
   }
 
   /**
-   * Reject all pending commands
+   * Send CommandBuilder command by name and decode its response
+   * request('getSoftLimits', 1) -> { axis: 1, min, max }
    */
-  private rejectAllPending(reason: string) {
-    for (const [id, pending] of this.pendingCommands) {
-      pending.reject(new Error(reason));
-      this.pendingCommands.delete(id);
-    }
+  async request<K extends BuilderCommand>(name: K, ...args: BuilderArgs<K>): Promise<DecodedResponse<K>> {
+    const response = await this.transport.sendCommand(buildCommand(name, ...args));
+    return decodeResponse(name, response, ...args);
   }
 
   // ========== HIGH-LEVEL COMMANDS ==========
@@ -1109,55 +1583,52 @@ export class RobotProtocolClient {
    * Get current joint position
    */
   async getCurrentJointPosition(): Promise<JointPosition> {
-    const response = await this.sendCommand(CommandBuilder.getCurJPos());
-    if (!response.success || !response.data) {
-      throw new Error('Failed to get joint position');
-    }
-    const parsed = ProtocolParser.parseJointPosition(response.data);
-    if (!parsed) {
-      throw new Error('Invalid joint position data');
-    }
-    return parsed;
+    return this.request('getCurJPos');
   }
 
   /**
    * Get current world position
    */
   async getCurrentWorldPosition(): Promise<CPOSData> {
-    const response = await this.sendCommand(CommandBuilder.getCurWPosV3());
-    if (!response.success || !response.data) {
-      throw new Error('Failed to get world position');
-    }
-    const parsed = ProtocolParser.parseWorldPositionV3(response.data);
-    if (!parsed) {
-      throw new Error('Invalid world position data');
-    }
-    return parsed;
+    return this.request('getCurWPosV3');
+  }
+
+  /**
+   * Start MovePointV3 move
+   * await move(...).finished resolves when the robot reports the move done,
+   * rejects on RobotStop, SafeDoorIsOpen, FAIL, options.timeout or the motion guard
+   */
+  move(moveType: number, pointPos: string, cfg: string, param: string, options?: CommandOptions): MotionHandle {
+    return this.transport.sendMotion(CommandBuilder.movePointV3(moveType, pointPos, cfg, param), options);
   }
 
   /**
    * Move to joint position
    */
-  async moveToJointPosition(joints: number[], speed: number = 50, blend: number = 100): Promise<void> {
+  moveToJointPosition(joints: number[], speed: number = 50, blend: number = 100,
+                      options?: CommandOptions): MotionHandle {
     const pointPos = joints.map(j => j.toFixed(3)).join('_');
     const param = `0_${speed}_${blend}`;
-    const response = await this.sendCommand(CommandBuilder.movePointV3(1, pointPos, '', param));
-    if (!response.success) {
-      throw new Error(`Move failed: ${response.error}`);
-    }
+    return this.move(1, pointPos, '', param, options);
   }
 
   /**
    * Move to world position
    */
-  async moveToWorldPosition(x: number, y: number, z: number, a: number, b: number, c: number, 
-                            speed: number = 50, blend: number = 100): Promise<void> {
+  moveToWorldPosition(x: number, y: number, z: number, a: number, b: number, c: number, 
+                      speed: number = 50, blend: number = 100, options?: CommandOptions): MotionHandle {
     const pointPos = `${x.toFixed(3)}_${y.toFixed(3)}_${z.toFixed(3)}_${a.toFixed(3)}_${b.toFixed(3)}_${c.toFixed(3)}`;
     const param = `0_${speed}_${blend}`;
-    const response = await this.sendCommand(CommandBuilder.movePointV3(2, pointPos, '', param));
-    if (!response.success) {
-      throw new Error(`Move failed: ${response.error}`);
-    }
+    return this.move(2, pointPos, '', param, options);
+  }
+
+  /**
+   * Joints and TCP the motion guard measures a step from
+   */
+  private async readPosition(): Promise<CurrentPosition> {
+    const { j1, j2, j3, j4, j5, j6 } = await this.getCurrentJointPosition();
+    const pose = await this.getCurrentWorldPosition();
+    return { joints: [j1, j2, j3, j4, j5, j6], pose };
   }
 
   /**
@@ -1174,11 +1645,7 @@ export class RobotProtocolClient {
    * Get digital input
    */
   async getDigitalInput(ioIndex: number): Promise<number> {
-    const response = await this.sendCommand(CommandBuilder.ioGetDin(ioIndex));
-    if (!response.success || typeof response.data !== 'number') {
-      throw new Error('Failed to get digital input');
-    }
-    return response.data;
+    return this.request('ioGetDin', ioIndex);
   }
 
   /**
@@ -1194,12 +1661,8 @@ export class RobotProtocolClient {
   /**
    * Get variable
    */
-  async getVariable(varType: VarType, varName: string, scope: Scope = Scope.GLOBAL): Promise<any> {
-    const response = await this.sendCommand(CommandBuilder.getVarV3(varType, varName, scope));
-    if (!response.success) {
-      throw new Error(`Failed to get variable: ${response.error}`);
-    }
-    return response.data;
+  async getVariable<T extends VarType>(varType: T, varName: string, scope: Scope = Scope.GLOBAL): Promise<VarValue<T>> {
+    return await this.request('getVarV3', varType, varName, scope) as VarValue<T>;
   }
 
   /**
@@ -1216,11 +1679,76 @@ export class RobotProtocolClient {
    * Get robot run status
    */
   async getRunStatus(): Promise<RunStatus> {
-    const response = await this.sendCommand(CommandBuilder.getRobotRunStatus());
-    if (!response.success || typeof response.data !== 'number') {
-      throw new Error('Failed to get run status');
+    return this.request('getRobotRunStatus');
+  }
+
+  /**
+   * Get current system mode
+   */
+  async getSystemMode(): Promise<RobotMode> {
+    return this.request('getCurSysMode');
+  }
+
+  /**
+   * Check if servo is enabled
+   */
+  async getServoStatus(): Promise<boolean> {
+    return this.request('getServoSts');
+  }
+
+  /**
+   * Get global speed (%)
+   */
+  async getGlobalSpeed(): Promise<number> {
+    return this.request('getGoableSpeed');
+  }
+
+  /**
+   * Get active tool data (GetToolV3 returns the name, GetVarV3 the frame)
+   */
+  async getActiveTool(): Promise<ToolData> {
+    const tool = await this.request('getToolV3');
+    return this.getVariable(VarType.TOOL, tool.name, tool.scope);
+  }
+
+  /**
+   * Get active user coordinate data
+   */
+  async getActiveUserCoord(): Promise<UserCoordData> {
+    const userCoord = await this.request('getUserCoordV3');
+    return this.getVariable(VarType.USERCOORD, userCoord.name, userCoord.scope);
+  }
+
+  /**
+   * Get joint soft limits of one axis (1-based)
+   */
+  async getSoftLimits(axis: number): Promise<SoftLimit> {
+    return this.request('getSoftLimits', axis);
+  }
+
+  /**
+   * Set joint soft limits, one command per axis
+   */
+  async setSoftLimits(limits: SoftLimit[]): Promise<void> {
+    for (const limit of limits) {
+      await this.sendCommand(CommandBuilder.setSoftLimits(limit));
+    }
+  }
+
+  /**
+   * Read consecutive IO ports of one type
+   */
+  async getMultiIOValues(ioType: IOType, startIndex: number, count: number): Promise<IOValue[]> {
+    return this.request('getMultiIOValue', ioType, startIndex, count);
+  }
+
+  /**
+   * Write IO values, one setMultiIOValue_Face per run of consecutive ports
+   */
+  async setMultiIOValues(values: IOValue[]): Promise<void> {
+    for (const group of groupIOValues(values)) {
+      await this.sendCommand(CommandBuilder.setMultiIOValue(group));
     }
-    return response.data as RunStatus;
   }
 
   /**
@@ -1256,9 +1784,10 @@ export class RobotProtocolClient {
 
 // Export singleton instance helper
 export function createRobotClient(
-  serverUrl: string = import.meta.env.VITE_PROXY_URL || 'ws://localhost:3000',
+  transport: RobotTransport = new RobotTransport(import.meta.env.VITE_PROXY_URL || 'ws://localhost:3000'),
   robotIp: string = import.meta.env.VITE_ROBOT_IP || '192.168.1.100',
-  robotPort: number = Number(import.meta.env.VITE_ROBOT_PORT) || 502
+  robotPort: number = Number(import.meta.env.VITE_ROBOT_PORT) || 502,
+  guard: MotionGuard | null = null
 ): RobotProtocolClient {
-  return new RobotProtocolClient(serverUrl, robotIp, robotPort);
+  return new RobotProtocolClient(transport, robotIp, robotPort, guard);
 }
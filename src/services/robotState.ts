@@ -7,8 +7,114 @@ import {
   Scope,
   VarType,
   IOType,
+  CommandArgumentError,
+  CoordType,
+  buildCommand,
+  groupIOValues,
+  decodeResponse,
+  type BuilderArgs,
+  type BuilderCommand,
   type CommandResponse,
+  type DecodedResponse,
+  type IOValue,
+  type SoftLimit,
+  type VarValue,
 } from "./robotProtocol";
+import {
+  RobotTransport,
+  DEFAULT_RECONNECT_POLICY,
+  type MotionHandle,
+  type LeaseStateMessage,
+  type ProxyMessage,
+  type SessionClient,
+} from "./robotTransport";
+import { getCommandName, reportsMotionFinish, type CommandOptions } from "./commandQueue";
+import {
+  TrafficRecorder,
+  parseSession,
+  replaySession,
+  serializeSession,
+  type TrafficSession,
+} from "./trafficRecorder";
+import {
+  RegisterGroup,
+  coveredGroups,
+  decodeRegisters,
+  groupRange,
+  type DecodedRegisters,
+} from "./modbusRegisterMap";
+import { ModbusPoller, type PollIntervals } from "./modbusPoller";
+import {
+  ModbusHeartbeat,
+  type HeartbeatHealth,
+} from "./modbusHeartbeat";
+import {
+  ModbusCommand,
+  ModbusCommandExecutor,
+  COMMAND_STATUS_ADDRESS,
+  GLOBAL_SPEED_ADDRESS,
+  getModbusCommandName,
+  type CommandOperand,
+  type CommandResult,
+} from "./modbusCommand";
+import {
+  RegisterDiscovery,
+  parseDataset,
+  serializeDataset,
+  type DiscoveryAxis,
+  type DiscoveryDataset,
+  type RegisterCandidate,
+} from "./registerDiscovery";
+import {
+  ModbusWriteProbe,
+  WRITE_PROBE_ALLOW_LIST,
+  type WriteProbeResult,
+} from "./modbusWriteProbe";
+import {
+  JogController,
+  type JogDirection,
+  type JogState,
+} from "./jogController";
+import { RobotKinematics } from "./robotKinematics";
+import {
+  FRAME_SLOTS,
+  formatFrameValue,
+  frameLabel,
+  frameName,
+  poseInUserFrame,
+  poseWithTool,
+  toFrame,
+  type CoordinateFrame,
+  type FrameType,
+} from "./coordinateFrames";
+import { IDENTITY_POSE, type Pose } from "./poseMath";
+import {
+  MotionGuard,
+  defaultGuardConfig,
+  parseGuardConfig,
+  serializeGuardConfig,
+  type GuardViolation,
+  type MotionGuardConfig,
+} from "./motionGuard";
+import {
+  STEP_ANGLES,
+  STEP_DISTANCES,
+  STEP_SPEED,
+  stepJoints,
+  stepPose,
+  type StepDirection,
+  type StepSize,
+} from "./stepJog";
+import {
+  RobotLinkProtocol,
+  builtInProfiles,
+  createProfileId,
+  parseProfiles,
+  profilePort,
+  serializeProfiles,
+  validateProfile,
+  type ConnectionProfile,
+} from "./connectionProfiles";
 
 // Define the shape of our robot state
 interface LogEntry {
@@ -19,11 +125,14 @@ interface LogEntry {
 }
 
 interface RobotState {
-  isConnected: boolean;
+  proxyConnected: boolean; // WebSocket to the proxy is open
+  isConnected: boolean; // robot link up, as reported by the proxy STATUS
   connection: {
     address: string;
     port: number;
     protocol: string;
+    // CLIENT: proxy dials the robot, VISION_SERVER: robot dials the proxy
+    linkMode: "CLIENT" | "VISION_SERVER";
   };
   mode: "MANUAL" | "AUTO" | "REMOTE";
   coordinates: {
@@ -51,15 +160,102 @@ interface RobotState {
   };
   logs: LogEntry[];
   lastRegisters: number[]; // Store last received Modbus register values
+  registers: DecodedRegisters; // Last decoded value per register map field
+  polling: {
+    active: boolean;
+    paused: boolean; // suspended while a register scan runs
+    intervals: PollIntervals; // ms per register group, 0 = off
+    updatedAt: Partial<Record<RegisterGroup, number>>; // epoch ms of last data per group
+  };
+  modbusHealth: HeartbeatHealth; // master heartbeat (40001) and connection-health alarm
+  jog: JogState; // held jog (JogMotion_IFace) and the frame for the next one
+  step: {
+    size: StepSize; // increment of a step jog
+    busy: boolean; // a step is moving, the next one waits for its finish event
+  };
+  frames: {
+    tools: CoordinateFrame[]; // TOOL variables found on the robot
+    userCoords: CoordinateFrame[]; // USERCOORD variables found on the robot
+    activeTool: string | null; // GetToolV3
+    activeUserCoord: string | null; // GetUserCoordV3
+    displayTool: string | null; // coordinates shown for this tool, null = active tool
+    displayUserCoord: string | null; // coordinates shown in this user frame, null = world
+  };
+  guard: {
+    config: MotionGuardConfig; // limits, zones and max step checked before every move
+    override: string | null; // reason of an armed admin override (next violating move only)
+  };
+  session: {
+    clientId: string | null; // this frontend, as named by the proxy
+    holder: string | null; // client holding the control lease
+    hasControl: boolean; // this frontend may command the robot
+    clients: SessionClient[]; // all frontends connected to the proxy
+    requests: string[]; // clients waiting for the lease, oldest first
+  };
+  discovery: {
+    registers: number; // registers with findings
+    correlating: DiscoveryAxis | null; // axis of the running correlation
+  };
+  reconnect: {
+    active: boolean;
+    target: "proxy" | "robot" | null; // which link is being restored
+    attempt: number;
+    maxAttempts: number; // 0: no limit (the proxy retries the robot link until it is back)
+    nextAttemptAt: number | null; // epoch ms of the next attempt
+  };
+  recording: boolean; // proxy traffic is being recorded
+  replay: {
+    active: boolean;
+    position: number; // inbound messages delivered so far
+    total: number;
+  };
+  profiles: {
+    list: ConnectionProfile[];
+    activeId: string; // profile used by connect()
+  };
+}
+
+// Connection profiles, kept across page reloads
+const PROFILES_STORAGE_KEY = "robot-connection-profiles";
+const ACTIVE_PROFILE_STORAGE_KEY = "robot-connection-profile";
+// Never empty, deleteProfile keeps the last one
+const loadProfiles = (): ConnectionProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (saved) return parseProfiles(saved);
+  } catch {
+    localStorage.removeItem(PROFILES_STORAGE_KEY);
+  }
+  return builtInProfiles();
+};
+const savedProfiles = loadProfiles();
+const initialProfile =
+  savedProfiles.find(
+    (profile) => profile.id === localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY),
+  ) ?? savedProfiles[0]!;
+
+// Profile of the current (or last) connection
+let connectionProfile: ConnectionProfile = initialProfile;
+
+// Motion guard config, kept across page reloads
+const GUARD_STORAGE_KEY = "robot-motion-guard";
+const motionGuard = new MotionGuard();
+try {
+  const saved = localStorage.getItem(GUARD_STORAGE_KEY);
+  if (saved) motionGuard.configure(parseGuardConfig(saved));
+} catch {
+  localStorage.removeItem(GUARD_STORAGE_KEY);
 }
 
 // Initial State - DISCONNECTED by default
 const state = reactive<RobotState>({
+  proxyConnected: false,
   isConnected: false,
   connection: {
-    address: import.meta.env.VITE_ROBOT_IP || "192.168.1.100",
-    port: Number(import.meta.env.VITE_ROBOT_PORT) || 1502,
-    protocol: "Modbus TCP (Port 1502)",
+    address: initialProfile.robotIp,
+    port: profilePort(initialProfile),
+    protocol: initialProfile.protocol,
+    linkMode: "CLIENT",
   },
   mode: "MANUAL",
   coordinates: { x: 0, y: 0, z: 0, a: 0, b: 0, c: 0 },
@@ -73,10 +269,151 @@ const state = reactive<RobotState>({
   },
   logs: [],
   lastRegisters: [],
+  registers: {},
+  polling: {
+    active: false,
+    paused: false,
+    intervals: { ...initialProfile.pollIntervals },
+    updatedAt: {},
+  },
+  modbusHealth: {
+    active: false,
+    value: 0,
+    missed: 0,
+    lastAckAt: null,
+    alarm: null,
+  },
+  jog: {
+    active: false,
+    axis: null,
+    direction: null,
+    coordType: CoordType.JOINT,
+  },
+  step: {
+    size: { distance: STEP_DISTANCES[1], angle: STEP_ANGLES[1] },
+    busy: false,
+  },
+  frames: {
+    tools: [],
+    userCoords: [],
+    activeTool: null,
+    activeUserCoord: null,
+    displayTool: null,
+    displayUserCoord: null,
+  },
+  guard: {
+    config: motionGuard.getConfig(),
+    override: null,
+  },
+  session: {
+    clientId: null,
+    holder: null,
+    hasControl: false,
+    clients: [],
+    requests: [],
+  },
+  discovery: {
+    registers: 0,
+    correlating: null,
+  },
+  reconnect: {
+    active: false,
+    target: null,
+    attempt: 0,
+    maxAttempts: DEFAULT_RECONNECT_POLICY.maxAttempts,
+    nextAttemptAt: null,
+  },
+  recording: false,
+  replay: {
+    active: false,
+    position: 0,
+    total: 0,
+  },
+  profiles: {
+    list: savedProfiles,
+    activeId: initialProfile.id,
+  },
+});
+
+// Shared transport to the proxy server
+let transport: RobotTransport | null = null;
+
+// Backoff for the proxy WebSocket (the proxy retries the robot link itself)
+const reconnectPolicy = DEFAULT_RECONNECT_POLICY;
+
+// Records the traffic of whichever transport is active
+const recorder = new TrafficRecorder();
+let replayAbort: AbortController | null = null;
+
+// Telemetry polling for Modbus TCP (reads are silent, unlike readModbusRegisters)
+const poller = new ModbusPoller(({ address, count }) => {
+  if (!transport || !state.isConnected) return;
+  transport.send({ type: "READ_REGISTER", addr: address, count });
+}, initialProfile.pollIntervals);
+
+// Master heartbeat for Modbus TCP, runs while the robot link is up
+const heartbeat = new ModbusHeartbeat(
+  (address, value) =>
+    transport?.post({ type: "WRITE_REGISTER", addr: address, val: value }) ?? null,
+  (health) => {
+    if (health.alarm && health.alarm !== state.modbusHealth.alarm) {
+      robotService.addLog(`⚠ Modbus connection health: ${health.alarm}`, "error");
+    } else if (!health.alarm && state.modbusHealth.alarm && health.active) {
+      robotService.addLog("✓ Modbus heartbeat restored", "success");
+    }
+    state.modbusHealth = health;
+  },
+  { interval: initialProfile.heartbeatInterval },
+);
+
+// Press-and-hold jog; keep-alives let the proxy stop the robot if this page goes silent
+const jog = new JogController(
+  {
+    send: async (command) =>
+      (await robotService.sendCommand(command))?.success ?? false,
+    keepAlive: () => !!transport?.send({ type: "JOG_KEEPALIVE" }),
+  },
+  (jogState) => {
+    state.jog = jogState;
+  },
+);
+
+// Deadman: a held jog never outlives the focus or visibility of the page
+window.addEventListener("blur", () => robotService.stopJog("window lost focus"));
+document.addEventListener("visibilitychange", () => {
+  if (document.hidden) robotService.stopJog("tab hidden");
+});
+
+// Control commands (start/stop/reset, speed, state machine reset) through the 40051/40052 handshake, checked in 40018
+const commandExecutor = new ModbusCommandExecutor({
+  write: (address, value) => robotService.writeRegister(address, value),
+  readStatus: async () =>
+    (await robotService.readRegisters(COMMAND_STATUS_ADDRESS, 1))[0] ?? 0,
+});
+
+// Register findings from scans and polls, kept across page reloads
+const DISCOVERY_STORAGE_KEY = "robot-register-discovery";
+const discovery = new RegisterDiscovery();
+try {
+  const saved = localStorage.getItem(DISCOVERY_STORAGE_KEY);
+  if (saved) discovery.load(parseDataset(saved));
+} catch {
+  localStorage.removeItem(DISCOVERY_STORAGE_KEY);
+}
+state.discovery.registers = discovery.size;
+
+// Reads, writes, verifies and restores allow-listed registers
+const writeProbe = new ModbusWriteProbe({
+  write: (address, value) => robotService.writeRegister(address, value),
+  read: async (address) => (await robotService.readRegisters(address, 1))[0] ?? 0,
 });
 
-// WebSocket instance
-let ws: WebSocket | null = null;
+// Time to wait for REGISTER_WRITTEN / REGISTER_DATA from the proxy
+const REGISTER_REPLY_TIMEOUT = 2000;
+
+// Protocol reported by the proxy, or the profile's until the proxy answers
+const isModbusLink = () =>
+  state.connection.protocol === RobotLinkProtocol.MODBUS_TCP;
 
 /**
  * Service to handle actual data flow using ER Series Robot Protocol.
@@ -101,47 +438,45 @@ export const robotService = {
   },
 
   /**
-   * Connect to robot via proxy server using TCP string protocol
+   * Connect to robot via proxy server with a connection profile (default: the active one)
    */
-  connect() {
-    if (state.isConnected) {
+  connect(target?: ConnectionProfile) {
+    if (state.proxyConnected) {
       this.addLog("Already connected, skipping...", "warn");
       return;
     }
 
-    const proxyUrl = import.meta.env.VITE_PROXY_URL || "ws://localhost:3000";
-    // Get port from localStorage or env (default: 1502 for Modbus TCP)
-    const robotPort =
-      Number(localStorage.getItem("VITE_ROBOT_PORT")) ||
-      Number(import.meta.env.VITE_ROBOT_PORT) ||
-      1502;
-    const robotIp = import.meta.env.VITE_ROBOT_IP || "192.168.1.100";
-    const protocol =
-      robotPort === 502 || robotPort === 1502
-        ? "Modbus TCP"
-        : "TCP String (ER Series RCS2 V1.5.3)";
+    const profile = target ?? this.getActiveProfile();
+    const { proxyUrl, robotIp } = profile;
+    const robotPort = profilePort(profile);
+    connectionProfile = profile;
+
+    state.connection.address = robotIp;
+    state.connection.port = robotPort;
+    state.connection.protocol = profile.protocol;
+    this.applyProfileSettings(profile);
 
     this.addLog("=== CONNECTION STARTED ===", "info");
-    this.addLog(`Protocol: ${protocol}`, "info");
-    this.addLog(`ENV Settings:`, "info");
-    this.addLog(`  VITE_ROBOT_IP: ${robotIp}`, "info");
-    this.addLog(`  VITE_ROBOT_PORT: ${robotPort}`, "info");
-    this.addLog(`  VITE_PROXY_URL: ${proxyUrl}`, "info");
+    this.addLog(`Profile: ${profile.name}`, "info");
+    this.addLog(
+      `  Protocol: ${profile.protocol === RobotLinkProtocol.MODBUS_TCP ? "Modbus TCP" : "TCP String (ER Series RCS2 V1.5.3)"}`,
+      "info",
+    );
+    this.addLog(`  Robot: ${robotIp}:${robotPort}`, "info");
+    this.addLog(`  Proxy: ${proxyUrl}`, "info");
     this.addLog(`Attempting WebSocket connection to: ${proxyUrl}`, "info");
 
-    try {
-      ws = new WebSocket(proxyUrl);
-    } catch (e: any) {
-      this.addLog(
-        `CRITICAL ERROR: Failed to create WebSocket: ${e.message}`,
-        "error",
-      );
-      state.isConnected = false;
-      return;
-    }
+    // Drop a link that is still retrying in the background
+    transport?.close();
+    this.clearReconnect();
+
+    const link = new RobotTransport(proxyUrl, reconnectPolicy);
+    link.setRecorder(recorder);
+    link.setMotionCheck((command) => this.guardMotion(command));
+    transport = link;
 
     const connectionTimeout = setTimeout(() => {
-      if (!state.isConnected) {
+      if (!state.proxyConnected) {
         this.addLog(
           `CONNECTION TIMEOUT: No response from proxy server after 10s`,
           "error",
@@ -153,99 +488,60 @@ export const robotService = {
         );
         this.addLog(`  2. Wrong proxy address: ${proxyUrl}`, "warn");
         this.addLog(`  3. Firewall blocking connection`, "warn");
-        ws?.close();
+        link.close();
       }
     }, 10000);
 
-    ws.onopen = () => {
+    link.on("open", () => {
       clearTimeout(connectionTimeout);
-      this.addLog("✓ WebSocket connection established", "success");
-      state.isConnected = true;
-
-      // Send handshake to proxy WITH PORT
-      const handshake = JSON.stringify({
-        cmd: "CONNECT",
-        target: { ip: robotIp, port: robotPort },
-      });
-      ws?.send(handshake);
-      this.addLog(`Handshake sent: ${handshake}`, "cmd");
-
-      // Start automatic register scanning for Modbus TCP
-      if (robotPort === 502 || robotPort === 1502) {
-        this.addLog("Starting automatic Modbus register scan...", "info");
+      if (state.reconnect.active) {
         this.addLog(
-          "Reading coordinates (regs 100-109) and joints (regs 200-205)...",
-          "info",
+          `✓ Reconnected to proxy (attempt ${state.reconnect.attempt})`,
+          "success",
         );
-        // Read coordinates first (registers 100-109)
-        this.readModbusRegisters(100, 10);
-        // Then read joints (registers 200-205) after delay
-        setTimeout(() => {
-          this.readModbusRegisters(200, 6);
-        }, 500);
+        this.clearReconnect();
       } else {
-        // TCP String Protocol
-        this.addLog("Requesting robot status...", "info");
-        this.getRunStatus();
+        this.addLog("✓ WebSocket connection established", "success");
       }
-    };
-
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-
-        if (data.type === "STATUS") {
-          if (data.connected) {
-            this.addLog("✓ Robot connection confirmed", "success");
-            // Update protocol if provided by server
-            if (data.protocol) {
-              state.connection.protocol = data.protocol;
-            }
-          } else {
-            this.addLog(
-              `✗ Robot connection failed: ${data.error || "Unknown error"}`,
-              "error",
-            );
-            state.isConnected = false;
-          }
-        }
+      state.proxyConnected = true;
 
-        if (data.type === "ROBOT_RESPONSE") {
-          this.addLog(`← Robot: ${data.response}`, "info");
-
-          // Parse response and update state
-          const response = ProtocolParser.parseResponse(data.response);
-          if (response) {
-            this.handleRobotResponse(response);
-          }
-        }
+      // Resume session: telemetry restarts once STATUS confirms the robot link
+      this.sendHandshake();
+    });
 
-        if (data.type === "REGISTER_DATA") {
-          // Modbus TCP register data received
-          // Log only for manual read operations
-          if (this._logNextRegisterData) {
-            const preview = data.values.slice(0, 20).join(", ");
-            this.addLog(`Registers: [${preview}]`, "info");
-            this._logNextRegisterData = false; // Reset flag
-          }
-          this.handleModbusData(data.values);
-        }
+    link.on("message", (data) => this.handleProxyMessage(data));
 
-        if (data.type === "HEARTBEAT") {
-          this.addLog("♥ Heartbeat received", "info");
-        }
+    link.on("reconnecting", ({ attempt, maxAttempts, delay }) => {
+      state.reconnect = {
+        active: true,
+        target: "proxy",
+        attempt,
+        maxAttempts,
+        nextAttemptAt: Date.now() + delay,
+      };
+      this.addLog(
+        `Reconnecting to proxy in ${(delay / 1000).toFixed(1)}s (attempt ${attempt}/${maxAttempts})`,
+        "warn",
+      );
+    });
 
-        if (data.type === "ERROR") {
-          this.addLog(`ROBOT ERROR: ${data.message}`, "error");
-        }
-      } catch (e: any) {
-        this.addLog(`Parse error: ${e.message} | Raw: ${event.data}`, "error");
-      }
-    };
+    link.on("reconnectFailed", ({ attempts }) => {
+      this.clearReconnect();
+      this.addLog(
+        `✗ Reconnect failed after ${attempts} attempts, press Connect to retry`,
+        "error",
+      );
+    });
 
-    ws.onclose = (event) => {
+    link.on("close", (event) => {
       clearTimeout(connectionTimeout);
+      state.proxyConnected = false;
       state.isConnected = false;
+      this.stopPolling();
+      heartbeat.stop();
+      // The proxy stops a running jog when its controlling client goes away
+      jog.reset();
+      this.resetSession();
       this.addLog("✗ WebSocket connection closed", "error");
       this.addLog(
         `Code: ${event.code}, Reason: ${event.reason || "No reason"}`,
@@ -256,14 +552,275 @@ export const robotService = {
         this.addLog("Code 1006: Server unreachable", "error");
         this.addLog(`Check: npm run server`, "warn");
       }
-    };
+    });
 
-    ws.onerror = () => {
+    link.on("error", (error) => {
+      if (
+        error.message.startsWith("Message parse error") ||
+        error.message.startsWith("Invalid proxy message")
+      ) {
+        this.addLog(error.message, "error");
+        return;
+      }
       this.addLog("✗ WebSocket error", "error");
       this.addLog("Server may be offline", "warn");
+    });
+
+    link.connect().catch((e: any) => {
+      // Socket errors are reported by the "error" handler above
+      if (!(e instanceof Error) || e.message !== "WebSocket connection error") {
+        this.addLog(
+          `CRITICAL ERROR: Failed to create WebSocket: ${e.message}`,
+          "error",
+        );
+        clearTimeout(connectionTimeout);
+        state.proxyConnected = false;
+      }
+    });
+  },
+
+  /**
+   * Send CONNECT handshake for the current target
+   */
+  sendHandshake() {
+    const handshake = {
+      type: "CONNECT" as const,
+      target: {
+        ip: state.connection.address,
+        port: state.connection.port,
+        protocol: connectionProfile.protocol,
+        encoding: connectionProfile.encoding,
+      },
+    };
+    if (transport?.send(handshake)) {
+      this.addLog(`Handshake sent: ${JSON.stringify(handshake)}`, "cmd");
+    }
+  },
+
+  /**
+   * Start telemetry requests for the active protocol
+   * Called whenever the proxy reports the robot link up again
+   */
+  startTelemetry() {
+    // Start automatic register scanning for Modbus TCP
+    if (isModbusLink()) {
+      const rates = Object.entries(poller.getIntervals())
+        .filter(([, interval]) => interval)
+        .map(([group, interval]) => `${group} ${interval}ms`)
+        .join(", ");
+      this.addLog(`Starting Modbus telemetry polling (${rates})`, "info");
+      this.startPolling();
+    } else {
+      // TCP String Protocol
+      this.addLog("Requesting robot status...", "info");
+      this.getRunStatus();
+    }
+  },
+
+  /**
+   * Reset reconnect state
+   */
+  clearReconnect() {
+    state.reconnect = {
+      active: false,
+      target: null,
+      attempt: 0,
+      maxAttempts: reconnectPolicy.maxAttempts,
+      nextAttemptAt: null,
+    };
+  },
+
+  /**
+   * Handle message received from proxy server
+   */
+  handleProxyMessage(data: ProxyMessage) {
+    if (data.type === "STATUS") {
+      const visionServer = data.mode === "VISION_SERVER";
+      if (data.mode) {
+        state.connection.linkMode = visionServer ? "VISION_SERVER" : "CLIENT";
+      }
+      // In vision server mode the robot address is only known to the proxy
+      if (visionServer) {
+        state.connection.address = data.robotIp || state.connection.address;
+        state.connection.port = data.robotPort || state.connection.port;
+      }
+
+      if (data.connected) {
+        this.addLog("✓ Robot connection confirmed", "success");
+        // Update protocol if provided by server
+        if (data.protocol) {
+          state.connection.protocol = data.protocol;
+        }
+        if (state.reconnect.target === "robot") {
+          this.clearReconnect();
+        }
+        const wasConnected = state.isConnected;
+        state.isConnected = true;
+        if (!wasConnected) {
+          this.startTelemetry();
+        }
+        // Only the lease holder writes the master heartbeat
+        if (isModbusLink() && state.session.hasControl) {
+          heartbeat.start();
+        }
+      } else if (visionServer) {
+        // Robot reconnects by itself, nothing to retry from here
+        this.addLog(
+          `Waiting for robot to connect to vision server port ${state.connection.port}`,
+          "warn",
+        );
+        state.isConnected = false;
+        heartbeat.stop();
+      } else {
+        const failure = data.error || data.reason;
+        if (failure) {
+          this.addLog(`✗ Robot connection failed: ${failure}`, "error");
+        } else {
+          this.addLog("Waiting for proxy to reach the robot...", "info");
+        }
+        state.isConnected = false;
+        heartbeat.stop();
+        // The proxy owns the retry, only show when its next attempt is due
+        if (data.attempt !== undefined && data.retryIn !== undefined) {
+          state.reconnect = {
+            active: true,
+            target: "robot",
+            attempt: data.attempt,
+            maxAttempts: 0,
+            nextAttemptAt: Date.now() + data.retryIn,
+          };
+          this.addLog(
+            `Proxy retries robot link in ${(data.retryIn / 1000).toFixed(1)}s (attempt ${data.attempt})`,
+            "warn",
+          );
+        }
+      }
+    }
+
+    if (data.type === "ROBOT_RESPONSE") {
+      this.addLog(`← Robot: ${data.response}`, "info");
+
+      // Parse response and update state
+      const response = ProtocolParser.parseResponse(data.response);
+      if (response) {
+        this.handleRobotResponse(response);
+      }
+    }
+
+    if (data.type === "REGISTER_DATA") {
+      // Modbus TCP register data received (polls, manual reads and scans)
+      this.handleModbusData(data.values, data.addr);
+    }
+
+    if (data.type === "HEARTBEAT") {
+      this.addLog("♥ Heartbeat received", "info");
+    }
+
+    if (data.type === "LEASE") {
+      this.handleLease(data);
+    }
+
+    if (data.type === "REGISTER_WRITTEN") {
+      heartbeat.handleAck(data.requestId);
+    }
+
+    if (data.type === "ERROR") {
+      this.addLog(`ROBOT ERROR: ${data.message}`, "error");
+      if (data.requestId !== undefined) {
+        heartbeat.handleError(data.requestId, data.message);
+      }
+    }
+  },
+
+  /**
+   * Apply the session and control lease state sent by the proxy
+   */
+  handleLease(data: LeaseStateMessage) {
+    const hadControl = state.session.hasControl;
+    const hasControl = data.holder === data.clientId;
+    const newRequests = data.requests.filter(
+      (id) => !state.session.requests.includes(id),
+    );
+
+    state.session = {
+      clientId: data.clientId,
+      holder: data.holder,
+      hasControl,
+      clients: data.clients,
+      requests: data.requests,
+    };
+
+    if (hasControl && !hadControl) {
+      this.addLog(`✓ Control lease granted to this client (${data.clientId})`, "success");
+      if (state.isConnected && isModbusLink()) {
+        heartbeat.start();
+      }
+    } else if (!hasControl && hadControl) {
+      this.addLog(
+        `Control lease passed to ${data.holder ?? "nobody"}, observing only`,
+        "warn",
+      );
+      heartbeat.stop();
+      // The proxy stops a running jog when the lease changes hands
+      jog.reset();
+    }
+
+    if (hasControl) {
+      for (const id of newRequests) {
+        this.addLog(`${id} requests control`, "warn");
+      }
+    }
+  },
+
+  /**
+   * Forget the session (the proxy names the client again on the next connection)
+   */
+  resetSession() {
+    state.session = {
+      clientId: null,
+      holder: null,
+      hasControl: false,
+      clients: [],
+      requests: [],
     };
   },
 
+  /**
+   * Ask the proxy for the control lease (granted at once if it is free)
+   */
+  requestControl() {
+    if (!transport) {
+      this.addLog("Cannot request control: No connection", "error");
+      return;
+    }
+    transport.send({ type: "LEASE_REQUEST" });
+    this.addLog("Requesting control lease", "cmd");
+  },
+
+  /**
+   * Give up the control lease; it passes to the oldest request
+   */
+  releaseControl() {
+    if (!transport || !state.session.hasControl) {
+      this.addLog("Cannot release control: lease not held", "error");
+      return;
+    }
+    transport.send({ type: "LEASE_RELEASE" });
+    this.addLog("Releasing control lease", "cmd");
+  },
+
+  /**
+   * Hand the control lease over to another connected client
+   */
+  handOverControl(clientId: string) {
+    if (!transport || !state.session.hasControl) {
+      this.addLog("Cannot hand over control: lease not held", "error");
+      return;
+    }
+    transport.send({ type: "LEASE_HANDOVER", to: clientId });
+    this.addLog(`Handing control lease over to ${clientId}`, "cmd");
+  },
+
   /**
    * Handle parsed robot response and update state
    */
@@ -292,9 +849,25 @@ export const robotService = {
 
   disconnect() {
     this.addLog("Manual Disconnect", "warn");
+    state.proxyConnected = false;
     state.isConnected = false;
-    ws?.close();
-    ws = null;
+    this.clearReconnect();
+    this.stopPolling();
+    heartbeat.stop();
+    jog.reset();
+    this.resetSession();
+    // Frames belong to this robot, the next connection may be another one
+    state.frames = {
+      tools: [],
+      userCoords: [],
+      activeTool: null,
+      activeUserCoord: null,
+      displayTool: null,
+      displayUserCoord: null,
+    };
+    motionGuard.setTool(IDENTITY_POSE);
+    transport?.close();
+    transport = null;
   },
 
   /**
@@ -302,21 +875,19 @@ export const robotService = {
    * Default: reads coordinates (100-109) and joints (200-205)
    */
   readModbusRegisters(address: number = 100, count: number = 20) {
-    if (!ws || !state.isConnected) {
+    if (!transport || !state.isConnected) {
       this.addLog("Cannot read Modbus: No connection", "error");
       return;
     }
 
-    // Set flag to log the response
-    this._logNextRegisterData = true;
-
-    ws.send(
-      JSON.stringify({
-        type: "READ_REGISTER",
-        addr: address,
-        count: count,
-      }),
-    );
+    // Log the reply to this read (decoded by handleProxyMessage like any other)
+    transport
+      .request({ type: "READ_REGISTER", addr: address, count })
+      .then((reply) => {
+        const preview = reply.values.slice(0, 20).join(", ");
+        this.addLog(`Registers: [${preview}]`, "info");
+      })
+      .catch((e: Error) => this.addLog(`Read ${address} failed: ${e.message}`, "error"));
 
     this.addLog(
       `Reading Modbus registers ${address}-${address + count - 1}`,
@@ -324,277 +895,479 @@ export const robotService = {
     );
   },
 
-  // Flag to log next register data (for manual read operations)
-  _logNextRegisterData: false,
-
-  /**
-   * Write Modbus holding register
-   */
-  writeModbusRegister(address: number, value: number) {
-    if (!ws || !state.isConnected) {
-      this.addLog("Cannot write Modbus: No connection", "error");
-      return;
-    }
+  // ========== CONNECTION PROFILES ==========
 
-    ws.send(
-      JSON.stringify({
-        type: "WRITE_REGISTER",
-        addr: address,
-        val: value,
-      }),
+  getActiveProfile(): ConnectionProfile {
+    return (
+      state.profiles.list.find((profile) => profile.id === state.profiles.activeId) ??
+      state.profiles.list[0]!
     );
-
-    this.addLog(`Write Modbus ${address} -> ${value}`, "cmd");
   },
 
   /**
-   * Start robot program via Modbus
+   * Use the profile's polling and heartbeat settings from now on
    */
-  startRobotProgram() {
-    this.addLog("Starting robot program...", "cmd");
-    // Set command flag (40051 = 0x11)
-    this.writeModbusRegister(40051, 0x11);
-    // Send Start command (40052 = 0x04)
-    setTimeout(() => {
-      this.writeModbusRegister(40052, 0x04);
-    }, 100);
+  applyProfileSettings(profile: ConnectionProfile) {
+    for (const group of Object.values(RegisterGroup)) {
+      poller.setInterval(group, profile.pollIntervals[group] ?? 0);
+    }
+    this.syncPolling();
+    heartbeat.setInterval(profile.heartbeatInterval);
   },
 
   /**
-   * Stop robot program via Modbus
+   * Pick the profile the next connect() uses
    */
-  stopRobotProgram() {
-    this.addLog("Stopping robot program...", "cmd");
-    // Set command flag (40051 = 0x11)
-    this.writeModbusRegister(40051, 0x11);
-    // Send Stop command (40052 = 0x08)
-    setTimeout(() => {
-      this.writeModbusRegister(40052, 0x08);
-    }, 100);
+  selectProfile(id: string): boolean {
+    const profile = state.profiles.list.find((entry) => entry.id === id);
+    if (!profile) {
+      this.addLog(`Unknown connection profile: ${id}`, "error");
+      return false;
+    }
+    state.profiles.activeId = id;
+    this.saveProfiles();
+    this.addLog(
+      state.proxyConnected
+        ? `Profile "${profile.name}" selected, reconnect to apply`
+        : `Profile "${profile.name}" selected`,
+      "info",
+    );
+    return true;
   },
 
   /**
-   * Reset robot errors via Modbus
+   * Add a profile, or replace the one with the same id (a new profile gets an id from its name)
    */
-  resetRobotErrors() {
-    this.addLog("Resetting robot errors...", "cmd");
-    // Set command flag (40051 = 0x11)
-    this.writeModbusRegister(40051, 0x11);
-    // Send Reset command (40052 = 0x10)
-    setTimeout(() => {
-      this.writeModbusRegister(40052, 0x10);
-    }, 100);
+  saveProfile(profile: Omit<ConnectionProfile, "id"> & { id?: string }): ConnectionProfile | null {
+    const ids = state.profiles.list.map((entry) => entry.id);
+    let saved: ConnectionProfile;
+    try {
+      saved = validateProfile({
+        ...profile,
+        id: profile.id ?? createProfileId(profile.name, ids),
+      });
+    } catch (e: any) {
+      this.addLog(e.message, "error");
+      return null;
+    }
+
+    const index = ids.indexOf(saved.id);
+    if (index >= 0) {
+      state.profiles.list[index] = saved;
+    } else {
+      state.profiles.list.push(saved);
+    }
+    this.saveProfiles();
+    this.addLog(`Profile "${saved.name}" saved`, "success");
+    return saved;
   },
 
-  /**
-   * Set global speed via Modbus
-   */
-  setGlobalSpeed(speed: number) {
-    this.addLog(`Setting global speed: ${speed}%`, "cmd");
-    this.writeModbusRegister(40053, speed);
+  deleteProfile(id: string): boolean {
+    if (state.profiles.list.length <= 1) {
+      this.addLog("Cannot delete the last connection profile", "error");
+      return false;
+    }
+    const index = state.profiles.list.findIndex((entry) => entry.id === id);
+    if (index < 0) return false;
+
+    const [removed] = state.profiles.list.splice(index, 1);
+    if (state.profiles.activeId === id) {
+      state.profiles.activeId = state.profiles.list[0]!.id;
+    }
+    this.saveProfiles();
+    this.addLog(`Profile "${removed!.name}" deleted`, "warn");
+    return true;
   },
 
   /**
-   * Reset command state machine (use after errors)
+   * Persist profiles and the active profile in localStorage
    */
-  resetStateMachine() {
-    this.addLog("Resetting command state machine...", "warn");
-    this.writeModbusRegister(40051, 0x11);
-    setTimeout(() => {
-      this.writeModbusRegister(40052, 0x400);
-    }, 100);
+  saveProfiles() {
+    try {
+      localStorage.setItem(
+        PROFILES_STORAGE_KEY,
+        serializeProfiles(state.profiles.list),
+      );
+      localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, state.profiles.activeId);
+    } catch (e: any) {
+      this.addLog(`Connection profiles not saved: ${e.message}`, "warn");
+    }
   },
 
   /**
-   * Read robot status registers (40002-40018)
-   * Based on ESTUN Modbus TCP Control Interface Data Table
-   * Note: Modbus 40002 = address 1, 40018 = address 17
+   * Download all profiles as JSON
    */
-  readRobotStatus() {
-    this.addLog("Reading robot status (regs 40002-40018)...", "info");
-    this.readModbusRegisters(1, 17); // Address 1-17 (Modbus 40002-40018)
+  exportProfiles() {
+    const blob = new Blob([serializeProfiles(state.profiles.list)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `robot-profiles-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    this.addLog(
+      `Connection profiles exported (${state.profiles.list.length})`,
+      "success",
+    );
   },
 
   /**
-   * Read command execution status (register 40018)
-   * Shows which commands completed successfully
+   * Import a profiles file; profiles with a known id replace the existing ones
    */
-  readCommandStatus() {
-    this.addLog("Reading command status (reg 40018)...", "info");
-    this.readModbusRegisters(17, 1); // Address 17 (Modbus 40018)
+  importProfiles(text: string): boolean {
+    let imported: ConnectionProfile[];
+    try {
+      imported = parseProfiles(text);
+    } catch (e: any) {
+      this.addLog(e.message, "error");
+      return false;
+    }
+
+    for (const profile of imported) {
+      const index = state.profiles.list.findIndex((entry) => entry.id === profile.id);
+      if (index >= 0) {
+        state.profiles.list[index] = profile;
+      } else {
+        state.profiles.list.push(profile);
+      }
+    }
+    this.saveProfiles();
+    this.addLog(`Connection profiles imported (${imported.length})`, "success");
+    return true;
   },
 
+  // ========== TELEMETRY POLLING ==========
+
   /**
-   * Test write to Modbus register - for verifying control capability
+   * Start polling the register groups at their configured intervals
    */
-  testModbusWrite() {
-    this.addLog("=== TESTING MODBUS WRITE ===", "info");
-    this.addLog("Step 1: Setting command flag (40051 = 0x11)", "cmd");
-    this.writeModbusRegister(40051, 0x11);
+  startPolling() {
+    poller.start();
+    this.syncPolling();
+  },
+
+  stopPolling() {
+    poller.stop();
+    this.syncPolling();
+  },
 
-    setTimeout(() => {
-      this.addLog("Step 2: Writing test value to 40052 (0x01)", "cmd");
-      this.writeModbusRegister(40052, 0x01);
+  /**
+   * Suspend polling (calls nest, every pause needs a resume)
+   */
+  pausePolling() {
+    poller.pause();
+    this.syncPolling();
+  },
 
-      setTimeout(() => {
-        this.addLog("Step 3: Reading back registers 40050-40055", "info");
-        this.readModbusRegisters(40050, 6);
-      }, 200);
-    }, 200);
+  resumePolling() {
+    poller.resume();
+    this.syncPolling();
   },
 
   /**
-   * Send start command via Modbus (40052 = 0x04)
+   * Change the poll interval of a register group (0 disables it)
    */
-  sendStartCommand() {
-    this.addLog("Sending START command (40052 = 0x04)", "cmd");
-    this.writeModbusRegister(40051, 0x11);
-    setTimeout(() => {
-      this.writeModbusRegister(40052, 0x04);
-    }, 100);
+  setPollInterval(group: RegisterGroup, interval: number) {
+    poller.setInterval(group, interval);
+    this.syncPolling();
+  },
+
+  syncPolling() {
+    state.polling.active = poller.active;
+    state.polling.paused = poller.paused;
+    state.polling.intervals = poller.getIntervals();
   },
 
   /**
-   * Send stop command via Modbus (40052 = 0x08)
+   * Read all registers of a register map group
    */
-  sendStopCommand() {
-    this.addLog("Sending STOP command (40052 = 0x08)", "cmd");
-    this.writeModbusRegister(40051, 0x11);
-    setTimeout(() => {
-      this.writeModbusRegister(40052, 0x08);
-    }, 100);
+  readRegisterGroup(group: RegisterGroup) {
+    const { address, count } = groupRange(group);
+    this.readModbusRegisters(address, count);
   },
 
   /**
-   * Send reset command via Modbus (40052 = 0x10)
+   * Write Modbus holding register
    */
-  sendResetCommand() {
-    this.addLog("Sending RESET command (40052 = 0x10)", "cmd");
-    this.writeModbusRegister(40051, 0x11);
-    setTimeout(() => {
-      this.writeModbusRegister(40052, 0x10);
-    }, 100);
+  writeModbusRegister(address: number, value: number) {
+    if (!transport || !state.isConnected) {
+      this.addLog("Cannot write Modbus: No connection", "error");
+      return;
+    }
+
+    transport.send({
+      type: "WRITE_REGISTER",
+      addr: address,
+      val: value,
+    });
+
+    this.addLog(`Write Modbus ${address} -> ${value}`, "cmd");
   },
 
   /**
-   * Scan for writable registers - test write to common command registers
+   * Write Modbus holding register and wait until the proxy confirms it
+   * Silent, unlike writeModbusRegister
    */
-  scanWritableRegisters() {
-    this.addLog("=== SCANNING FOR WRITABLE REGISTERS ===", "info");
+  writeRegister(address: number, value: number): Promise<void> {
+    const link = transport;
+    if (!link || !state.isConnected) {
+      return Promise.reject(new Error("Cannot write Modbus: No connection"));
+    }
 
-    // Common command register addresses to test
-    const testAddresses = [
-      // Estun command registers
-      40051, 40052, 40053, 40054, 40055,
-      // Standard holding registers
-      10, 11, 12, 13, 14, 15, 50, 51, 52, 1000, 1001, 1002, 2000, 2001, 2002,
-      3000, 3001, 3002, 4000, 4001, 4002, 5000, 5001, 5002,
-    ];
+    return link
+      .request({ type: "WRITE_REGISTER", addr: address, val: value }, REGISTER_REPLY_TIMEOUT)
+      .then(
+        () => undefined,
+        (e: Error) => {
+          throw new Error(`Write ${address} failed: ${e.message}`);
+        },
+      );
+  },
 
-    let index = 0;
+  /**
+   * Read Modbus holding registers and resolve with their values
+   * Silent, unlike readModbusRegisters
+   */
+  readRegisters(address: number, count: number): Promise<number[]> {
+    const link = transport;
+    if (!link || !state.isConnected) {
+      return Promise.reject(new Error("Cannot read Modbus: No connection"));
+    }
 
-    const testNext = () => {
-      if (index >= testAddresses.length) {
-        this.addLog("=== SCAN COMPLETE ===", "success");
-        return;
-      }
+    return link
+      .request({ type: "READ_REGISTER", addr: address, count }, REGISTER_REPLY_TIMEOUT)
+      .then(
+        (reply) => reply.values.slice(0, count),
+        (e: Error) => {
+          throw new Error(`Read ${address} failed: ${e.message}`);
+        },
+      );
+  },
 
-      const addr = testAddresses[index] ?? 0;
-      const testValue = 0x01;
+  /**
+   * Run Modbus control command through the 40051/40052 handshake
+   * Resolves once 40018 confirms it, rejects with the reason otherwise
+   */
+  async executeModbusCommand(command: ModbusCommand, operand?: CommandOperand): Promise<CommandResult> {
+    const name = getModbusCommandName(command);
+    this.addLog(`Modbus command ${name} (40052 = 0x${command.toString(16)})`, "cmd");
+    try {
+      const result = await commandExecutor.execute(command, operand);
+      this.addLog(`✓ ${name} completed (${result.duration}ms)`, "success");
+      return result;
+    } catch (e: any) {
+      this.addLog(`✗ ${e.message}`, "error");
+      throw e;
+    }
+  },
 
-      this.addLog(`Testing write to R${addr} = ${testValue}...`, "info");
+  /**
+   * Start robot program via Modbus
+   */
+  startRobotProgram(): Promise<CommandResult> {
+    this.addLog("Starting robot program...", "cmd");
+    return this.executeModbusCommand(ModbusCommand.START);
+  },
 
-      // Try to write
-      this.writeModbusRegister(addr, testValue);
+  /**
+   * Stop robot program via Modbus
+   */
+  stopRobotProgram(): Promise<CommandResult> {
+    this.addLog("Stopping robot program...", "cmd");
+    return this.executeModbusCommand(ModbusCommand.STOP);
+  },
 
-      // Read back after delay
-      setTimeout(() => {
-        this.readModbusRegisters(addr, 1);
-        index++;
-        setTimeout(testNext, 500);
-      }, 200);
-    };
+  /**
+   * Reset robot errors via Modbus
+   */
+  resetRobotErrors(): Promise<CommandResult> {
+    this.addLog("Resetting robot errors...", "cmd");
+    return this.executeModbusCommand(ModbusCommand.RESET);
+  },
 
-    testNext();
+  /**
+   * Set global speed via Modbus (40053, then SET_GLOBAL_SPEED)
+   */
+  setGlobalSpeed(speed: number): Promise<CommandResult> {
+    this.addLog(`Setting global speed: ${speed}%`, "cmd");
+    return this.executeModbusCommand(ModbusCommand.SET_GLOBAL_SPEED, {
+      address: GLOBAL_SPEED_ADDRESS,
+      value: speed,
+    });
+  },
+
+  /**
+   * Reset command state machine (use after errors)
+   */
+  resetStateMachine(): Promise<CommandResult> {
+    this.addLog("Resetting command state machine...", "warn");
+    return this.executeModbusCommand(ModbusCommand.RESET_STATE_MACHINE);
+  },
+
+  /**
+   * Read robot status registers (40002-40018)
+   * Based on ESTUN Modbus TCP Control Interface Data Table
+   * Note: Modbus 40002 = address 1, 40018 = address 17
+   */
+  readRobotStatus() {
+    this.addLog("Reading robot status (regs 40002-40018)...", "info");
+    this.readModbusRegisters(1, 17); // Address 1-17 (Modbus 40002-40018)
+  },
+
+  /**
+   * Read command execution status (register 40018)
+   * Shows which commands completed successfully
+   */
+  readCommandStatus() {
+    this.addLog("Reading command status (reg 40018)...", "info");
+    this.readModbusRegisters(17, 1); // Address 17 (Modbus 40018)
+  },
+
+  /**
+   * Send start command via Modbus (40052 = 0x04)
+   */
+  sendStartCommand(): Promise<CommandResult> {
+    return this.executeModbusCommand(ModbusCommand.START);
+  },
+
+  /**
+   * Send stop command via Modbus (40052 = 0x08)
+   */
+  sendStopCommand(): Promise<CommandResult> {
+    return this.executeModbusCommand(ModbusCommand.STOP);
+  },
+
+  /**
+   * Send reset command via Modbus (40052 = 0x10)
+   */
+  sendResetCommand(): Promise<CommandResult> {
+    return this.executeModbusCommand(ModbusCommand.RESET);
+  },
+
+  /**
+   * Scan for writable registers without changing them
+   * Each allow-listed address is read, written with a test value, verified
+   * and restored (modbusWriteProbe.ts). Refused while the servo is on or
+   * the robot moves; the first unsafe status or failed restore aborts the scan.
+   */
+  async scanWritableRegisters(
+    addresses: readonly number[] = WRITE_PROBE_ALLOW_LIST,
+  ): Promise<WriteProbeResult[]> {
+    this.addLog("=== SCANNING FOR WRITABLE REGISTERS ===", "info");
+    const results: WriteProbeResult[] = [];
+
+    try {
+      await writeProbe.checkSafe();
+    } catch (e: any) {
+      this.addLog(e.message, "error");
+      return results;
+    }
+
+    this.pausePolling();
+    try {
+      for (const addr of addresses) {
+        if (!writeProbe.isAllowed(addr)) {
+          this.addLog(`R${addr}: skipped, not on the write probe allow-list`, "warn");
+          continue;
+        }
+
+        const result = await writeProbe.probe(addr);
+        results.push(result);
+        discovery.markWritable(addr, result.writable);
+        if (result.error) {
+          this.addLog(`R${addr}: write rejected (${result.error})`, "info");
+        } else {
+          this.addLog(
+            `R${addr}: wrote ${result.testValue}, read back ${result.readBack} (${result.writable ? "writable" : "not writable"})`,
+            result.writable ? "success" : "info",
+          );
+        }
+        if (result.restored) this.addLog(`R${addr}: restored ${result.original}`, "info");
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+      this.addLog("=== SCAN COMPLETE ===", "success");
+    } catch (e: any) {
+      this.addLog(`Scan aborted: ${e.message}`, "error");
+    } finally {
+      this.resumePolling();
+      this.saveDiscovery();
+    }
+    return results;
   },
 
   /**
    * Handle Modbus register data
    * Called automatically when REGISTER_DATA received
    *
-   * Register Map (Port 1502):
-   * - Registers 100-108: Cartesian coordinates (X,Y,Z,A,B,C) - scale 100
-   * - Registers 200-205: Joint angles (J1-J6) - scale 100
+   * Values are decoded through the register map (modbusRegisterMap.ts)
+   * using the address the block was read from. Blocks without an
+   * address are kept as raw values only.
    */
-  handleModbusData(values: number[]) {
+  handleModbusData(values: number[], address?: number) {
     // Store raw register values for diagnostics
     state.lastRegisters = [...values];
+    if (typeof address !== "number") return;
+
+    const decoded = decodeRegisters(address, values);
+    Object.assign(state.registers, decoded);
 
-    // Coordinates have pattern: [val, 0, val, 0, val, 0, val, 0, val, 0]
-    // Every other register is 0 or small value
-    const isCoordinates =
-      values.length >= 9 &&
-      (values[0] || 0) > 10000 && // X ~50000
-      (values[1] || 0) < 1000 && // reserved
-      (values[2] || 0) > 10000 && // Y ~17000
-      (values[3] || 0) > 10000; // not zero (some values)
-
-    // Joints are 6 consecutive values in range 1000-60000
-    const isJoints =
-      values.length >= 6 &&
-      (values[0] || 0) > 500 &&
-      (values[0] || 0) < 60000 &&
-      (values[1] || 0) > 500 &&
-      (values[1] || 0) < 60000 &&
-      (values[2] || 0) > 500 &&
-      (values[2] || 0) < 60000;
-
-    // Update coordinates from registers 100-108
-    if (isCoordinates && values.length >= 9) {
-      const rawX = values[0] || 0;
-      const rawY = values[2] || 0;
-      const rawZ = values[4] || 0;
-      const rawA = values[6] || 0;
-      const rawB = values[8] || 0;
-
-      // Apply scale factor (÷100)
-      const newX = rawX / 100;
-      const newY = rawY / 100;
-      const newZ = rawZ / 100;
-      const newA = rawA / 100;
-      const newB = rawB / 100;
+    discovery.observe(address, values);
+    state.discovery.registers = discovery.size;
+
+    // Freshness of every group contained in the block
+    poller.handleData(address);
+    const now = Date.now();
+    for (const group of coveredGroups(address, values.length)) {
+      state.polling.updatedAt[group] = now;
+    }
 
+    // Update coordinates from registers 100-111 (int32)
+    const { x, y, z, a, b, c } = decoded;
+    if (
+      typeof x === "number" &&
+      typeof y === "number" &&
+      typeof z === "number" &&
+      typeof a === "number" &&
+      typeof b === "number" &&
+      typeof c === "number"
+    ) {
       // Update state if values changed
       const changed =
-        Math.abs(newX - state.coordinates.x) > 0.1 ||
-        Math.abs(newY - state.coordinates.y) > 0.1 ||
-        Math.abs(newZ - state.coordinates.z) > 0.1;
+        Math.abs(x - state.coordinates.x) > 0.1 ||
+        Math.abs(y - state.coordinates.y) > 0.1 ||
+        Math.abs(z - state.coordinates.z) > 0.1;
 
       if (changed) {
-        state.coordinates.x = newX;
-        state.coordinates.y = newY;
-        state.coordinates.z = newZ;
-        state.coordinates.a = newA;
-        state.coordinates.b = newB;
+        Object.assign(state.coordinates, { x, y, z, a, b, c });
         this.addLog(
-          `Position: X=${newX.toFixed(2)}, Y=${newY.toFixed(2)}, Z=${newZ.toFixed(2)}, A=${newA.toFixed(2)}°, B=${newB.toFixed(2)}°`,
+          `Position: X=${x.toFixed(2)}, Y=${y.toFixed(2)}, Z=${z.toFixed(2)}, A=${a.toFixed(2)}°, B=${b.toFixed(2)}°, C=${c.toFixed(2)}°`,
           "info",
         );
       }
     }
 
-    // Update joints from registers 200-205 (6 consecutive values)
-    // Only if NOT coordinates data
-    if (isJoints && !isCoordinates && values.length >= 6) {
-      const newJoints = values.slice(0, 6).map((v) => (v || 0) / 100);
+    // Update joints from registers 200-205 (int16)
+    const newJoints = [
+      decoded.j1,
+      decoded.j2,
+      decoded.j3,
+      decoded.j4,
+      decoded.j5,
+      decoded.j6,
+    ];
+    if (newJoints.every((v) => typeof v === "number")) {
+      const joints = newJoints as number[];
 
       // Update if different
-      if (JSON.stringify(newJoints) !== JSON.stringify(state.joints)) {
-        state.joints = newJoints;
+      if (JSON.stringify(joints) !== JSON.stringify(state.joints)) {
+        state.joints = joints;
         this.addLog(
-          `Joints: J1=${(newJoints[0] || 0).toFixed(2)}°, J2=${(newJoints[1] || 0).toFixed(2)}°, ` +
-            `J3=${(newJoints[2] || 0).toFixed(2)}°, J4=${(newJoints[3] || 0).toFixed(2)}°, ` +
-            `J5=${(newJoints[4] || 0).toFixed(2)}°, J6=${(newJoints[5] || 0).toFixed(2)}°`,
+          `Joints: J1=${(joints[0] || 0).toFixed(2)}°, J2=${(joints[1] || 0).toFixed(2)}°, ` +
+            `J3=${(joints[2] || 0).toFixed(2)}°, J4=${(joints[3] || 0).toFixed(2)}°, ` +
+            `J5=${(joints[4] || 0).toFixed(2)}°, J6=${(joints[5] || 0).toFixed(2)}°`,
           "info",
         );
       }
@@ -613,23 +1386,24 @@ export const robotService = {
    * Called automatically on connect for Modbus TCP
    *
    * Now optimized for known register map:
-   * - Registers 100-109: Cartesian coordinates
+   * - Registers 100-111: Cartesian coordinates
    * - Registers 200-205: Joint angles
    */
   scanAllModbusRegisters() {
-    if (!ws || !state.isConnected) {
+    if (!transport || !state.isConnected) {
       this.addLog("Cannot scan: No connection", "error");
       return;
     }
 
     this.addLog("=== STARTING MODBUS REGISTER SCAN ===", "info");
     this.addLog("Port 1502 - Known register map:", "info");
-    this.addLog("  Registers 100-109: Cartesian (X,Y,Z,A,B,C)", "info");
+    this.addLog("  Registers 100-111: Cartesian (X,Y,Z,A,B,C)", "info");
     this.addLog("  Registers 200-205: Joint angles (J1-J6)", "info");
     this.addLog("Scanning full range 0-999 for additional data...", "info");
 
     // Scan full range 0-999
     this.scanRegisterRange("Holding", 0, 1000, () => {
+      this.saveDiscovery();
       this.addLog("=== FULL SCAN COMPLETE ===", "success");
       this.addLog("Check logs for non-zero values", "info");
       this.addLog('Use "Export Logs" button to save to file', "info");
@@ -648,9 +1422,11 @@ export const robotService = {
     const batchSize = 100;
     const batches = Math.ceil((endAddr - startAddr) / batchSize);
     let batchIndex = 0;
+    this.pausePolling();
 
     const scanNextBatch = () => {
       if (batchIndex >= batches) {
+        this.resumePolling();
         if (callback) callback();
         return;
       }
@@ -663,42 +1439,6 @@ export const robotService = {
         "info",
       );
 
-      const handler = (event: MessageEvent) => {
-        try {
-          const data = JSON.parse(event.data);
-          if (
-            data.type === "REGISTER_DATA" ||
-            data.type === "INPUT_DATA" ||
-            data.type === "COIL_DATA"
-          ) {
-            // Log only non-zero values
-            const nonZeroValues = data.values
-              .map((v: number, i: number) => ({ addr: addr + i, value: v }))
-              .filter(
-                (item: { addr: number; value: number }) => item.value !== 0,
-              );
-
-            if (nonZeroValues.length > 0) {
-              const logStr = nonZeroValues
-                .map(
-                  (item: { addr: number; value: number }) =>
-                    `R${item.addr}=${item.value}`,
-                )
-                .join(", ");
-              this.addLog(`${type} Non-zero: [${logStr}]`, "info");
-            }
-
-            ws?.removeEventListener("message", handler);
-            batchIndex++;
-            setTimeout(scanNextBatch, 300);
-          }
-        } catch (e) {
-          // Ignore parse errors
-        }
-      };
-
-      ws?.addEventListener("message", handler);
-
       // Send appropriate read command based on type
       const readType =
         type === "Holding"
@@ -707,13 +1447,32 @@ export const robotService = {
             ? "READ_INPUT_REGISTER"
             : "READ_COIL";
 
-      ws?.send(
-        JSON.stringify({
-          type: readType,
-          addr: addr,
-          count: count,
-        }),
-      );
+      if (!transport) {
+        this.resumePolling();
+        return;
+      }
+      transport
+        .request({ type: readType, addr, count })
+        .then((reply) => {
+          // Log only non-zero values
+          const nonZeroValues = reply.values
+            .map((value, i) => ({ addr: addr + i, value }))
+            .filter((item) => item.value !== 0);
+
+          if (nonZeroValues.length > 0) {
+            const logStr = nonZeroValues
+              .map((item) => `R${item.addr}=${item.value}`)
+              .join(", ");
+            this.addLog(`${type} Non-zero: [${logStr}]`, "info");
+          }
+        })
+        .catch((e: Error) => {
+          this.addLog(`${type} ${addr}-${addr + count - 1}: ${e.message}`, "warn");
+        })
+        .finally(() => {
+          batchIndex++;
+          setTimeout(scanNextBatch, 300);
+        });
     };
 
     scanNextBatch();
@@ -738,6 +1497,231 @@ export const robotService = {
     this.addLog("Logs exported to file", "success");
   },
 
+  // ========== REGISTER DISCOVERY ==========
+
+  /**
+   * Start correlating registers with a jog of one axis
+   * Jog that axis at constant speed (e.g. from the teach pendant), then call stopCorrelation
+   */
+  startCorrelation(axis: DiscoveryAxis) {
+    discovery.startCorrelation(axis);
+    state.discovery.correlating = axis;
+    this.addLog(`Correlating registers with ${axis}: jog ${axis} now`, "info");
+  },
+
+  /**
+   * Finish the correlation run and log the registers that followed the axis
+   */
+  stopCorrelation() {
+    const axis = discovery.correlating;
+    const matches = discovery.stopCorrelation();
+    state.discovery.correlating = null;
+    if (!axis) return [];
+
+    if (matches.length > 0) {
+      this.addLog(
+        `Registers following ${axis}: ${matches.map((m) => `R${m.address} (r=${m.r.toFixed(3)})`).join(", ")}`,
+        "success",
+      );
+    } else {
+      this.addLog(`No register followed ${axis}`, "warn");
+    }
+    this.saveDiscovery();
+    return matches;
+  },
+
+  /**
+   * Propose register map entries from the findings and log the new ones
+   */
+  proposeRegisterCandidates(): RegisterCandidate[] {
+    const candidates = discovery.proposeCandidates();
+    const unknown = candidates.filter((c) => !c.known);
+    this.addLog(
+      `Register candidates: ${candidates.length} (${unknown.length} not in the register map)`,
+      "info",
+    );
+    unknown.forEach((c) =>
+      this.addLog(`  R${c.address} ${c.field}: ${c.dataType} - ${c.reason}`, "info"),
+    );
+    return candidates;
+  },
+
+  getDiscoveryDataset(): DiscoveryDataset {
+    return discovery.dataset;
+  },
+
+  /**
+   * Persist findings in localStorage
+   */
+  saveDiscovery() {
+    try {
+      localStorage.setItem(
+        DISCOVERY_STORAGE_KEY,
+        JSON.stringify(discovery.dataset),
+      );
+    } catch (e: any) {
+      this.addLog(`Cannot save register findings: ${e.message}`, "warn");
+    }
+  },
+
+  /**
+   * Download findings as JSON
+   */
+  exportDiscovery() {
+    const dataset = discovery.dataset;
+    const blob = new Blob([serializeDataset(dataset)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `register-findings-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    this.addLog(
+      `Register findings exported (${dataset.registers.length} registers)`,
+      "success",
+    );
+  },
+
+  /**
+   * Replace findings with an exported JSON file
+   */
+  importDiscovery(text: string): boolean {
+    try {
+      discovery.load(parseDataset(text));
+    } catch (e: any) {
+      this.addLog(e.message, "error");
+      return false;
+    }
+    state.discovery.registers = discovery.size;
+    this.saveDiscovery();
+    this.addLog(`Register findings imported (${discovery.size} registers)`, "success");
+    return true;
+  },
+
+  clearDiscovery() {
+    discovery.clear();
+    state.discovery = { registers: 0, correlating: null };
+    localStorage.removeItem(DISCOVERY_STORAGE_KEY);
+    this.addLog("Register findings cleared", "info");
+  },
+
+  // ========== TRAFFIC RECORDING & REPLAY ==========
+
+  /**
+   * Start recording proxy traffic (commands, robot frames, register data)
+   */
+  startRecording() {
+    const url = transport?.url || connectionProfile.proxyUrl;
+    recorder.start(url);
+    state.recording = true;
+    this.addLog("● Recording protocol traffic", "info");
+  },
+
+  /**
+   * Stop recording and download the session file
+   */
+  stopRecording(): TrafficSession {
+    const session = recorder.stop();
+    state.recording = false;
+
+    const blob = new Blob([serializeSession(session)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `robot-session-${session.startedAt.replace(/[:.]/g, "-")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    this.addLog(
+      `Recording saved (${session.entries.length} messages)`,
+      "success",
+    );
+    return session;
+  },
+
+  /**
+   * Replay recorded session without the robot
+   * Inbound messages go through the same handlers as live traffic
+   * (ProtocolParser for robot frames, handleModbusData for registers)
+   * speed: 1 = recorded pacing, 0 = all at once
+   */
+  async replaySession(
+    source: TrafficSession | string,
+    speed: number = 1,
+  ): Promise<boolean> {
+    if (transport || state.replay.active) {
+      this.addLog("Cannot replay: disconnect and stop other replays first", "error");
+      return false;
+    }
+
+    let session: TrafficSession;
+    try {
+      session = typeof source === "string" ? parseSession(source) : source;
+    } catch (e: any) {
+      this.addLog(e.message, "error");
+      return false;
+    }
+
+    replayAbort = new AbortController();
+    state.replay = { active: true, position: 0, total: 0 };
+    this.addLog(
+      `▶ Replaying session from ${session.startedAt} (${session.entries.length} messages)`,
+      "info",
+    );
+
+    try {
+      const delivered = await replaySession(
+        session,
+        (message) => this.replayMessage(message),
+        {
+          speed,
+          signal: replayAbort.signal,
+          onProgress: (position, total) => {
+            state.replay.position = position;
+            state.replay.total = total;
+          },
+        },
+      );
+      this.addLog(`Replay complete (${delivered} messages)`, "success");
+      return true;
+    } catch (e: any) {
+      this.addLog(e.message, "warn");
+      return false;
+    } finally {
+      replayAbort = null;
+      state.replay.active = false;
+      state.isConnected = false;
+    }
+  },
+
+  /**
+   * Stop running replay
+   */
+  stopReplay() {
+    replayAbort?.abort();
+  },
+
+  /**
+   * Apply one recorded inbound message
+   * STATUS only sets the link flag: no handshake, retry or telemetry is started
+   */
+  replayMessage(message: ProxyMessage) {
+    if (message.type === "STATUS") {
+      state.isConnected = !!message.connected;
+      return;
+    }
+    // The recorded control lease belonged to that session, not this one
+    if (message.type === "LEASE") {
+      return;
+    }
+    this.handleProxyMessage(message);
+  },
+
   /**
    * Scan Modbus registers to find changing values (for mapping discovery)
    * Reads registers in batches and logs which ones change over time
@@ -747,7 +1731,7 @@ export const robotService = {
     count: number,
     scanDuration: number = 10000,
   ) {
-    if (!ws || !state.isConnected) {
+    if (!transport || !state.isConnected) {
       this.addLog("Cannot scan: No connection", "error");
       return;
     }
@@ -761,39 +1745,18 @@ export const robotService = {
     const baselineValues = new Map<number, number>();
     const changingRegisters = new Set<number>();
     const scanStartTime = Date.now();
+    this.pausePolling();
 
     // First, get baseline readings
     const getBaseline = async () => {
-      return new Promise<void>((resolve) => {
-        const handler = (event: MessageEvent) => {
-          try {
-            const data = JSON.parse(event.data);
-            if (data.type === "REGISTER_DATA") {
-              data.values.forEach((value: number, index: number) => {
-                baselineValues.set(startAddress + index, value);
-              });
-              ws?.removeEventListener("message", handler);
-              resolve();
-            }
-          } catch (e) {
-            // Ignore parse errors
-          }
-        };
-        ws?.addEventListener("message", handler);
-
-        ws?.send(
-          JSON.stringify({
-            type: "READ_REGISTER",
-            addr: startAddress,
-            count: count,
-          }),
-        );
-
-        setTimeout(() => {
-          ws?.removeEventListener("message", handler);
-          resolve();
-        }, 2000);
-      });
+      try {
+        const values = await this.readRegisters(startAddress, count);
+        values.forEach((value, index) => {
+          baselineValues.set(startAddress + index, value);
+        });
+      } catch (e: any) {
+        this.addLog(e.message, "warn");
+      }
     };
 
     // Then monitor for changes
@@ -801,6 +1764,8 @@ export const robotService = {
       const checkInterval = setInterval(() => {
         if (Date.now() - scanStartTime > scanDuration) {
           clearInterval(checkInterval);
+          this.resumePolling();
+          this.saveDiscovery();
           this.addLog("=== SCAN COMPLETE ===", "success");
           if (changingRegisters.size > 0) {
             this.addLog(
@@ -818,40 +1783,24 @@ export const robotService = {
         }
 
         // Read current values and compare
-        const handler = (event: MessageEvent) => {
-          try {
-            const data = JSON.parse(event.data);
-            if (data.type === "REGISTER_DATA") {
-              data.values.forEach((value: number, index: number) => {
-                const addr = startAddress + index;
-                const baseline = baselineValues.get(addr);
-                if (baseline !== undefined && value !== baseline) {
-                  changingRegisters.add(addr);
-                  this.addLog(
-                    `Register ${addr}: ${baseline} → ${value}`,
-                    "info",
-                  );
-                  baselineValues.set(addr, value); // Update baseline
-                }
-              });
-            }
-          } catch (e) {
-            // Ignore parse errors
-          }
-        };
-        ws?.addEventListener("message", handler);
-
-        ws?.send(
-          JSON.stringify({
-            type: "READ_REGISTER",
-            addr: startAddress,
-            count: count,
-          }),
-        );
-
-        setTimeout(() => {
-          ws?.removeEventListener("message", handler);
-        }, 500);
+        this.readRegisters(startAddress, count)
+          .then((values) => {
+            values.forEach((value, index) => {
+              const addr = startAddress + index;
+              const baseline = baselineValues.get(addr);
+              if (baseline !== undefined && value !== baseline) {
+                changingRegisters.add(addr);
+                this.addLog(
+                  `Register ${addr}: ${baseline} → ${value}`,
+                  "info",
+                );
+                baselineValues.set(addr, value); // Update baseline
+              }
+            });
+          })
+          .catch(() => {
+            // Missed sample, the next one follows in a second
+          });
       }, 1000);
     };
 
@@ -863,48 +1812,73 @@ export const robotService = {
   },
 
   /**
-   * Send raw command to robot
+   * Cancel queued or in-flight command by id
    */
-  async sendCommand(command: string): Promise<CommandResponse | null> {
-    if (!ws || !state.isConnected) {
-      this.addLog(`Failed to send: No connection`, "error");
-      return null;
+  cancelCommand(id: number): boolean {
+    return transport?.queue.cancel(id) ?? false;
+  },
+
+  /**
+   * Send raw command to robot
+   */
+  async sendCommand(
+    command: string,
+    options?: CommandOptions,
+  ): Promise<CommandResponse | null> {
+    if (!transport || !state.isConnected) {
+      this.addLog(`Failed to send: No connection`, "error");
+      return null;
     }
 
-    return new Promise((resolve) => {
-      const handler = (event: MessageEvent) => {
-        try {
-          const data = JSON.parse(event.data);
-          if (data.type === "ROBOT_RESPONSE") {
-            const response = ProtocolParser.parseResponse(data.response);
-            if (response) {
-              ws?.removeEventListener("message", handler);
-              resolve(response);
-            }
-          }
-        } catch (e) {
-          // Ignore parse errors
-        }
-      };
+    this.addLog(`→ Robot: ${command}`, "cmd");
 
-      ws?.addEventListener("message", handler);
+    if (reportsMotionFinish(command)) {
+      const error = "Moves are sent with move(), through the motion guard";
+      this.addLog(error, "error");
+      return { id: 0, success: false, error };
+    }
 
-      // Send command through proxy
-      ws?.send(
-        JSON.stringify({
-          type: "ROBOT_COMMAND",
-          command,
-        }),
-      );
+    // Queued behind other commands (stop commands go first),
+    // response is matched to this command by its id
+    try {
+      return await transport.sendCommand(command, options);
+    } catch (e: any) {
+      return { id: 0, success: false, error: e.message };
+    }
+  },
 
-      this.addLog(`→ Robot: ${command}`, "cmd");
+  /**
+   * Build CommandBuilder command by name
+   * Returns null (and logs) if an argument is rejected
+   */
+  build<K extends BuilderCommand>(name: K, ...args: BuilderArgs<K>): string | null {
+    try {
+      return buildCommand(name, ...args);
+    } catch (e: any) {
+      if (!(e instanceof CommandArgumentError)) throw e;
+      this.addLog(e.message, "error");
+      return null;
+    }
+  },
 
-      // Timeout
-      setTimeout(() => {
-        ws?.removeEventListener("message", handler);
-        resolve({ id: 0, success: false, error: "Timeout" });
-      }, 5000);
-    });
+  /**
+   * Send CommandBuilder command by name and decode its response
+   * Returns null (and logs) if the command fails or the data is malformed
+   */
+  async request<K extends BuilderCommand>(
+    name: K,
+    ...args: BuilderArgs<K>
+  ): Promise<DecodedResponse<K> | null> {
+    const command = this.build(name, ...args);
+    if (!command) return null;
+    const response = await this.sendCommand(command);
+    if (!response) return null;
+    try {
+      return decodeResponse(name, response, ...args);
+    } catch (e: any) {
+      this.addLog(`${name}: ${e.message}`, "error");
+      return null;
+    }
   },
 
   // ========== HIGH-LEVEL ROBOT COMMANDS ==========
@@ -913,83 +1887,102 @@ export const robotService = {
    * Get current joint position (Section 3.5)
    */
   async getCurrentJointPosition() {
-    const command = CommandBuilder.getCurJPos();
-    const response = await this.sendCommand(command);
-    if (response?.success && response.data) {
-      const joints = ProtocolParser.parseJointPosition(response.data);
-      if (joints) {
-        state.joints = [
-          joints.j1,
-          joints.j2,
-          joints.j3,
-          joints.j4,
-          joints.j5,
-          joints.j6,
-        ];
-        this.addLog(
-          `Joints: ${state.joints.map((j) => j.toFixed(2)).join(", ")}`,
-          "info",
-        );
-      }
+    const joints = await this.request("getCurJPos");
+    if (joints) {
+      state.joints = [
+        joints.j1,
+        joints.j2,
+        joints.j3,
+        joints.j4,
+        joints.j5,
+        joints.j6,
+      ];
+      this.addLog(
+        `Joints: ${state.joints.map((j) => j.toFixed(2)).join(", ")}`,
+        "info",
+      );
     }
-    return response;
+    return joints;
   },
 
   /**
    * Get current world position with CFG (Section 3.39)
    */
   async getCurrentWorldPosition() {
-    const command = CommandBuilder.getCurWPosV3();
-    const response = await this.sendCommand(command);
-    if (response?.success && response.data) {
-      const pos = ProtocolParser.parseWorldPositionV3(response.data);
-      if (pos) {
-        state.coordinates = {
-          x: pos.x,
-          y: pos.y,
-          z: pos.z,
-          a: pos.a,
-          b: pos.b,
-          c: pos.c,
-          mod: pos.mod,
-          cf1: pos.cf1,
-          cf2: pos.cf2,
-          cf3: pos.cf3,
-          cf4: pos.cf4,
-          cf5: pos.cf5,
-          cf6: pos.cf6,
-        };
-        this.addLog(
-          `Position: X=${pos.x.toFixed(2)}, Y=${pos.y.toFixed(2)}, Z=${pos.z.toFixed(2)}`,
-          "info",
-        );
-      }
+    const pos = await this.request("getCurWPosV3");
+    if (pos) {
+      state.coordinates = {
+        x: pos.x,
+        y: pos.y,
+        z: pos.z,
+        a: pos.a,
+        b: pos.b,
+        c: pos.c,
+        mod: pos.mod,
+        cf1: pos.cf1,
+        cf2: pos.cf2,
+        cf3: pos.cf3,
+        cf4: pos.cf4,
+        cf5: pos.cf5,
+        cf6: pos.cf6,
+      };
+      this.addLog(
+        `Position: X=${pos.x.toFixed(2)}, Y=${pos.y.toFixed(2)}, Z=${pos.z.toFixed(2)}`,
+        "info",
+      );
     }
-    return response;
+    return pos;
+  },
+
+  /**
+   * Start move (Section 3.42, 3.30, 3.31, 3.34)
+   * Returns handle whose finished promise settles on the finish event,
+   * a move refused by the motion guard rejects without being sent
+   */
+  move(
+    label: string,
+    command: string,
+    options?: CommandOptions,
+  ): MotionHandle | null {
+    if (!transport || !state.isConnected) {
+      this.addLog(`Failed to send: No connection`, "error");
+      return null;
+    }
+
+    this.addLog(`→ Robot: ${command}`, "cmd");
+    const handle = transport.sendMotion(command, options);
+    this.addLog(`${label} started (ID: ${handle.id})`, "success");
+    handle.finished.then(
+      (result) =>
+        this.addLog(
+          `${label} finished (ID: ${result.id}, ${result.motionType})`,
+          "success",
+        ),
+      (e: Error) =>
+        this.addLog(`${label} failed (ID: ${handle.id}): ${e.message}`, "error"),
+    );
+    return handle;
   },
 
   /**
    * Move to joint position (Section 3.42)
    */
-  async moveToJointPosition(
+  moveToJointPosition(
     joints: number[],
     speed: number = 50,
     blend: number = 100,
+    options?: CommandOptions,
   ) {
     const pointPos = joints.map((j) => j.toFixed(3)).join("_");
     const param = `0_${speed}_${blend}`;
-    const command = CommandBuilder.movePointV3(1, pointPos, "", param);
-    const response = await this.sendCommand(command);
-    if (response?.success) {
-      this.addLog(`MoveJ started (ID: ${response.id})`, "success");
-    }
-    return response;
+    const command = this.build("movePointV3", 1, pointPos, "", param);
+    return command ? this.move("MoveJ", command, options) : null;
   },
 
   /**
    * Move to world position (Section 3.42)
    */
-  async moveToWorldPosition(
+  moveToWorldPosition(
     x: number,
     y: number,
     z: number,
@@ -998,22 +1991,386 @@ export const robotService = {
     c: number,
     speed: number = 50,
     blend: number = 100,
+    options?: CommandOptions,
   ) {
     const pointPos = `${x.toFixed(3)}_${y.toFixed(3)}_${z.toFixed(3)}_${a.toFixed(3)}_${b.toFixed(3)}_${c.toFixed(3)}`;
     const param = `0_${speed}_${blend}`;
-    const command = CommandBuilder.movePointV3(2, pointPos, "", param);
-    const response = await this.sendCommand(command);
-    if (response?.success) {
-      this.addLog(`MoveL started (ID: ${response.id})`, "success");
+    const command = this.build("movePointV3", 2, pointPos, "", param);
+    return command ? this.move("MoveL", command, options) : null;
+  },
+
+  // ========== COORDINATE FRAMES ==========
+
+  /**
+   * Find the TOOL and USERCOORD variables (standard names, Section 3.40) and the active ones
+   */
+  async loadFrames(scope: Scope = Scope.GLOBAL): Promise<boolean> {
+    if (!transport || !state.isConnected) {
+      this.addLog("Cannot load frames: No connection", "error");
+      return false;
+    }
+
+    // Missing names answer FAIL, so they are probed without logging each one
+    const probe = async (type: FrameType) => {
+      const frames: CoordinateFrame[] = [];
+      for (let index = 0; index < FRAME_SLOTS; index++) {
+        const name = frameName(type, index);
+        try {
+          const command = buildCommand("getVarV3", type, name, scope);
+          const response = await transport!.sendCommand(command);
+          frames.push(toFrame(type, name, decodeResponse("getVarV3", response, type, name, scope) as VarValue<FrameType>));
+        } catch {
+          // No such frame
+        }
+      }
+      return frames;
+    };
+
+    state.frames.tools = await probe(VarType.TOOL);
+    state.frames.userCoords = await probe(VarType.USERCOORD);
+    this.addLog(
+      `Frames: ${state.frames.tools.length} tools, ${state.frames.userCoords.length} user frames`,
+      "info",
+    );
+    return this.refreshActiveFrames();
+  },
+
+  /**
+   * Read which tool and user frame are active (Section 3.43-3.44)
+   */
+  async refreshActiveFrames(): Promise<boolean> {
+    const tool = await this.request("getToolV3");
+    const userCoord = await this.request("getUserCoordV3");
+    if (!tool || !userCoord) return false;
+
+    state.frames.activeTool = tool.name;
+    state.frames.activeUserCoord = userCoord.name;
+    const activeTool = findFrame(VarType.TOOL, tool.name);
+    if (activeTool) {
+      motionGuard.setTool(activeTool.pose);
+    }
+    this.addLog(`Active frames: ${tool.name}, ${userCoord.name}`, "info");
+    return true;
+  },
+
+  /**
+   * Read one frame again (GetVarV3)
+   */
+  async readFrame(type: FrameType, name: string, scope: Scope = Scope.GLOBAL) {
+    const value = await this.getVariable(type, name, scope);
+    if (!value) return null;
+    const frame = toFrame(type, name, value);
+    storeFrame(frame);
+    return frame;
+  },
+
+  /**
+   * Write a frame (SetVarV3), the robot keeps it until the next change
+   */
+  async saveFrame(type: FrameType, name: string, pose: Pose, scope: Scope = Scope.GLOBAL) {
+    let value: string;
+    try {
+      value = formatFrameValue(pose);
+    } catch (e: any) {
+      this.addLog(`${frameLabel(type)} ${name} not saved: ${e.message}`, "error");
+      return false;
+    }
+    const response = await this.setVariable(type, name, value, scope);
+    if (!response?.success) {
+      this.addLog(`${frameLabel(type)} ${name} not saved`, "error");
+      return false;
+    }
+    // Read back, the robot may round or reject parts of the value
+    return (await this.readFrame(type, name, scope)) !== null;
+  },
+
+  /**
+   * Make a frame the active tool / user frame (Section 3.36-3.37)
+   */
+  async activateFrame(type: FrameType, name: string, scope: Scope = Scope.GLOBAL) {
+    const command =
+      type === VarType.TOOL
+        ? this.build("setTool", scope, name)
+        : this.build("setCoord", scope, name);
+    const response = command ? await this.sendCommand(command) : null;
+    if (!response?.success) {
+      this.addLog(`${frameLabel(type)} ${name} not activated`, "error");
+      return false;
+    }
+    this.addLog(`${frameLabel(type)} ${name} active`, "success");
+    if (type === VarType.TOOL) {
+      state.frames.activeTool = name;
+      const tool = findFrame(VarType.TOOL, name);
+      if (tool) motionGuard.setTool(tool.pose);
+    } else {
+      state.frames.activeUserCoord = name;
+    }
+    return true;
+  },
+
+  /**
+   * Frames the coordinates are shown in (null = active tool / world)
+   */
+  setDisplayFrames(frames: { tool?: string | null; userCoord?: string | null }) {
+    if (frames.tool !== undefined) state.frames.displayTool = frames.tool;
+    if (frames.userCoord !== undefined) state.frames.displayUserCoord = frames.userCoord;
+  },
+
+  /**
+   * Current TCP pose in the display frames
+   * Falls back to the reported pose while the frames involved are unknown
+   */
+  displayCoordinates(): Pose {
+    const { x, y, z, a, b, c } = state.coordinates;
+    let pose: Pose = { x, y, z, a, b, c };
+    const { displayTool, displayUserCoord, activeTool } = state.frames;
+
+    const tool = displayTool ? findFrame(VarType.TOOL, displayTool) : null;
+    const active = activeTool ? findFrame(VarType.TOOL, activeTool) : null;
+    if (tool && active) {
+      pose = poseWithTool(pose, active.pose, tool.pose);
+    }
+    const userCoord = displayUserCoord ? findFrame(VarType.USERCOORD, displayUserCoord) : null;
+    if (userCoord) {
+      pose = poseInUserFrame(pose, userCoord.pose);
+    }
+    return pose;
+  },
+
+  // ========== MOTION GUARD ==========
+
+  /**
+   * Replace the guard config (limits, zones, max step, robot model) and persist it
+   */
+  configureGuard(config: MotionGuardConfig): boolean {
+    try {
+      motionGuard.configure(config);
+    } catch (e: any) {
+      this.addLog(e.message, "error");
+      return false;
+    }
+    state.guard.config = motionGuard.getConfig();
+    try {
+      localStorage.setItem(GUARD_STORAGE_KEY, serializeGuardConfig(state.guard.config));
+    } catch (e: any) {
+      this.addLog(`Motion guard config not saved: ${e.message}`, "warn");
+    }
+    this.addLog("Motion guard config updated", "info");
+    return true;
+  },
+
+  resetGuard() {
+    return this.configureGuard(defaultGuardConfig());
+  },
+
+  /**
+   * Take the joint limits from the robot (GetSoftLimits, all axes) and the active tool
+   */
+  async loadGuardLimits(): Promise<boolean> {
+    const jointLimits: SoftLimit[] = [];
+    for (let axis = 1; axis <= 6; axis++) {
+      const limit = await this.getSoftLimits(axis);
+      if (!limit) {
+        this.addLog(`Motion guard limits not loaded: J${axis} unavailable`, "error");
+        return false;
+      }
+      jointLimits.push(limit);
+    }
+    const tool = await this.getActiveTool();
+    if (tool) {
+      motionGuard.setTool(tool);
+    }
+    return this.configureGuard({ ...motionGuard.getConfig(), jointLimits });
+  },
+
+  /**
+   * Let the next move through even if the guard rejects it; the reason is logged
+   */
+  overrideGuard(reason: string): boolean {
+    if (!reason.trim()) {
+      this.addLog("Motion guard override needs a reason", "error");
+      return false;
+    }
+    state.guard.override = reason.trim();
+    this.addLog(`Motion guard override armed by admin: ${state.guard.override}`, "warn");
+    return true;
+  },
+
+  cancelGuardOverride() {
+    if (state.guard.override === null) return;
+    state.guard.override = null;
+    this.addLog("Motion guard override cancelled", "info");
+  },
+
+  /**
+   * Motion check of the transport, every move frame passes it before it is queued
+   * The step is measured from a position read right before, a move whose
+   * start cannot be read is rejected (the override does not cover it)
+   */
+  async guardMotion(command: string): Promise<void> {
+    const label = getCommandName(command);
+    if (motionGuard.needsPosition) {
+      const joints = await this.getCurrentJointPosition();
+      const pose = joints && (await this.getCurrentWorldPosition());
+      if (!pose) {
+        this.addLog(`${label} rejected by motion guard: current position unknown`, "error");
+        throw new Error("Rejected by motion guard: current position unknown");
+      }
+    }
+    if (!this.passGuard(label, motionGuard.checkCommand(command, currentPosition()))) {
+      throw new Error("Rejected by motion guard");
+    }
+  },
+
+  /**
+   * Rejects a move with violations (logged) unless an override is armed
+   * An armed override is used up by the first violating move it lets through
+   */
+  passGuard(label: string, violations: GuardViolation[]): boolean {
+    if (violations.length === 0) return true;
+
+    const reasons = violations.map((violation) => violation.message).join("; ");
+    const override = state.guard.override;
+    if (override !== null) {
+      state.guard.override = null;
+      this.addLog(`${label} motion guard OVERRIDDEN (${override}): ${reasons}`, "warn");
+      return true;
+    }
+    this.addLog(`${label} rejected by motion guard: ${reasons}`, "error");
+    return false;
+  },
+
+  // ========== JOG ==========
+
+  /**
+   * Frame for the next jog: joints, world, tool or user (Section 3.25)
+   */
+  setJogCoordType(coordType: CoordType) {
+    jog.setCoordType(coordType);
+  },
+
+  /**
+   * Start jogging while held (Section 3.27), stopJog() must follow on release
+   * Axis 1..6 is a joint in the JOINT frame, X Y Z A B C otherwise
+   */
+  async startJog(axis: number, direction: JogDirection): Promise<boolean> {
+    if (!transport || !state.isConnected) {
+      this.addLog("Cannot jog: No connection", "error");
+      return false;
+    }
+    if (isModbusLink()) {
+      this.addLog("Cannot jog over Modbus TCP, use the TCP string protocol", "error");
+      return false;
+    }
+    if (!state.session.hasControl) {
+      this.addLog("Cannot jog: another client holds the control lease", "error");
+      return false;
+    }
+    try {
+      return await jog.start(axis, direction);
+    } catch (e: any) {
+      this.addLog(e.message, "error");
+      return false;
+    }
+  },
+
+  /**
+   * Stop the held jog (Section 3.28), no-op when nothing is jogging
+   */
+  async stopJog(reason?: string) {
+    if (!jog.active) return;
+    if (reason) {
+      this.addLog(`Jog stopped: ${reason}`, "warn");
+    }
+    if (!(await jog.stop())) {
+      this.addLog("JogMotionStop_IFace failed", "error");
+    }
+  },
+
+  // ========== STEP JOG ==========
+
+  setStepSize(size: Partial<StepSize>) {
+    state.step.size = { ...state.step.size, ...size };
+  },
+
+  /**
+   * Move one axis by one increment in the jog frame (state.jog.coordType)
+   * Reads the current position first, resolves after the move-finish event
+   * WORLD/TOOL steps act on the TCP of the active tool, USER steps along the active user frame
+   */
+  async stepJog(axis: number, direction: StepDirection): Promise<boolean> {
+    if (!transport || !state.isConnected) {
+      this.addLog("Cannot step: No connection", "error");
+      return false;
+    }
+    if (isModbusLink()) {
+      this.addLog("Cannot step over Modbus TCP, use the TCP string protocol", "error");
+      return false;
+    }
+    if (!state.session.hasControl) {
+      this.addLog("Cannot step: another client holds the control lease", "error");
+      return false;
+    }
+    if (state.step.busy || jog.active) {
+      this.addLog("Cannot step: previous jog still moving", "warn");
+      return false;
+    }
+
+    state.step.busy = true;
+    try {
+      const { coordType } = state.jog;
+      const size = { ...state.step.size };
+      let handle: MotionHandle | null = null;
+
+      if (coordType === CoordType.JOINT) {
+        const current = await this.getCurrentJointPosition();
+        if (!current) return false;
+        const target = stepJoints(
+          [current.j1, current.j2, current.j3, current.j4, current.j5, current.j6],
+          axis,
+          direction,
+          size,
+        );
+        handle = this.moveToJointPosition(target, STEP_SPEED, 0);
+      } else {
+        const current = await this.getCurrentWorldPosition();
+        if (!current) return false;
+        const userFrame =
+          coordType === CoordType.USER ? await this.getActiveUserCoord() : undefined;
+        if (userFrame === null) return false;
+        const target = stepPose(current, coordType, axis, direction, size, userFrame);
+        handle = this.moveToWorldPosition(
+          target.x,
+          target.y,
+          target.z,
+          target.a,
+          target.b,
+          target.c,
+          STEP_SPEED,
+          0,
+        );
+      }
+
+      if (!handle) return false;
+      // Failures of the move itself are logged by move()
+      return await handle.finished.then(
+        () => true,
+        () => false,
+      );
+    } catch (e: any) {
+      this.addLog(`Step failed: ${e.message}`, "error");
+      return false;
+    } finally {
+      state.step.busy = false;
     }
-    return response;
   },
 
   /**
    * Set digital output (Section 3.7)
    */
   async setDigitalOutput(ioIndex: number, value: number) {
-    const command = CommandBuilder.setIOValue(ioIndex, IOType.DOUT, value);
+    const command = this.build("setIOValue", ioIndex, IOType.DOUT, value);
+    if (!command) return null;
     const response = await this.sendCommand(command);
     if (response?.success) {
       this.addLog(`DO[${ioIndex}] = ${value}`, "success");
@@ -1025,12 +2382,11 @@ export const robotService = {
    * Get digital input (Section 3.8)
    */
   async getDigitalInput(ioIndex: number) {
-    const command = CommandBuilder.ioGetDin(ioIndex);
-    const response = await this.sendCommand(command);
-    if (response?.success) {
-      this.addLog(`DI[${ioIndex}] = ${response.data}`, "info");
+    const value = await this.request("ioGetDin", ioIndex);
+    if (value !== null) {
+      this.addLog(`DI[${ioIndex}] = ${value}`, "info");
     }
-    return response;
+    return value;
   },
 
   /**
@@ -1042,7 +2398,8 @@ export const robotService = {
     value: string,
     scope: Scope = Scope.GLOBAL,
   ) {
-    const command = CommandBuilder.setVarV3(varType, varName, value, scope);
+    const command = this.build("setVarV3", varType, varName, value, scope);
+    if (!command) return null;
     const response = await this.sendCommand(command);
     if (response?.success) {
       this.addLog(`Set ${varName} = ${value}`, "success");
@@ -1053,17 +2410,16 @@ export const robotService = {
   /**
    * Get variable (Section 3.40)
    */
-  async getVariable(
-    varType: VarType,
+  async getVariable<T extends VarType>(
+    varType: T,
     varName: string,
     scope: Scope = Scope.GLOBAL,
-  ) {
-    const command = CommandBuilder.getVarV3(varType, varName, scope);
-    const response = await this.sendCommand(command);
-    if (response?.success) {
-      this.addLog(`${varName} = ${response.data}`, "info");
+  ): Promise<VarValue<T> | null> {
+    const value = await this.request("getVarV3", varType, varName, scope);
+    if (value !== null) {
+      this.addLog(`${varName} = ${JSON.stringify(value)}`, "info");
     }
-    return response;
+    return value as VarValue<T> | null;
   },
 
   /**
@@ -1088,16 +2444,146 @@ export const robotService = {
    * Get robot run status (Section 3.13)
    */
   async getRunStatus() {
-    const command = CommandBuilder.getRobotRunStatus();
-    const response = await this.sendCommand(command);
-    if (response?.success && typeof response.data === "number") {
-      state.runStatus = response.data as RunStatus;
+    const status = await this.request("getRobotRunStatus");
+    if (status !== null) {
+      state.runStatus = status;
       const statusText = ["INIT", "RUNNING", "PAUSED", "STOPPED", "ERROR"][
-        response.data
+        status
       ];
       this.addLog(`Run status: ${statusText}`, "info");
     }
-    return response;
+    return status;
+  },
+
+  /**
+   * Get current system mode (Section 3.10)
+   */
+  async getSystemMode() {
+    const mode = await this.request("getCurSysMode");
+    if (mode !== null) {
+      state.mode =
+        mode === RobotMode.MANUAL
+          ? "MANUAL"
+          : mode === RobotMode.AUTO
+            ? "AUTO"
+            : "REMOTE";
+      this.addLog(`Mode: ${state.mode}`, "info");
+    }
+    return mode;
+  },
+
+  /**
+   * Get servo status (Section 3.24)
+   */
+  async getServoStatus() {
+    const enabled = await this.request("getServoSts");
+    if (enabled !== null) {
+      state.servoEnabled = enabled;
+      this.addLog(`Servo: ${enabled ? "ON" : "OFF"}`, "info");
+    }
+    return enabled;
+  },
+
+  /**
+   * Get global speed (Section 3.29)
+   */
+  async getGlobalSpeed() {
+    const speed = await this.request("getGoableSpeed");
+    if (speed !== null) {
+      this.addLog(`Global speed: ${speed}%`, "info");
+    }
+    return speed;
+  },
+
+  /**
+   * Get active tool (Section 3.43)
+   */
+  async getActiveTool() {
+    const tool = await this.request("getToolV3");
+    if (!tool) return null;
+    return this.getVariable(VarType.TOOL, tool.name, tool.scope);
+  },
+
+  /**
+   * Get active user coordinate system (Section 3.44)
+   */
+  async getActiveUserCoord() {
+    const userCoord = await this.request("getUserCoordV3");
+    if (!userCoord) return null;
+    return this.getVariable(
+      VarType.USERCOORD,
+      userCoord.name,
+      userCoord.scope,
+    );
+  },
+
+  /**
+   * Get joint soft limits of one axis (Section 3.46)
+   */
+  async getSoftLimits(axis: number): Promise<SoftLimit | null> {
+    const limits = await this.request("getSoftLimits", axis);
+    if (limits) {
+      this.addLog(`J${axis} limits: ${limits.min} .. ${limits.max}`, "info");
+    }
+    return limits;
+  },
+
+  /**
+   * Set soft limits, one command per axis (Section 3.47)
+   * Returns false if any axis was rejected
+   */
+  async setSoftLimits(limits: SoftLimit[]) {
+    for (const limit of limits) {
+      const command = this.build("setSoftLimits", limit);
+      const response = command ? await this.sendCommand(command) : null;
+      if (!response?.success) {
+        this.addLog(`Failed to set J${limit.axis} limits`, "error");
+        return false;
+      }
+      this.addLog(
+        `J${limit.axis} limits set: ${limit.min} .. ${limit.max}`,
+        "success",
+      );
+    }
+    return true;
+  },
+
+  /**
+   * Read consecutive IO ports of one type (Section 3.49)
+   */
+  async getMultiIOValues(ioType: IOType, startIndex: number, count: number) {
+    const values = await this.request(
+      "getMultiIOValue",
+      ioType,
+      startIndex,
+      count,
+    );
+    if (values) {
+      this.addLog(
+        `IO[${ioType}] ${startIndex}..${startIndex + count - 1} = ${values.map((io) => io.value).join(", ")}`,
+        "info",
+      );
+    }
+    return values;
+  },
+
+  /**
+   * Write IO values (Section 3.48)
+   * Sent as one command per run of consecutive ports of the same type
+   */
+  async setMultiIOValues(values: IOValue[]) {
+    for (const group of groupIOValues(values)) {
+      const command = this.build("setMultiIOValue", group);
+      const response = command ? await this.sendCommand(command) : null;
+      const first = group[0]!;
+      const range = `IO[${first.ioType}] ${first.index}..${first.index + group.length - 1}`;
+      if (!response?.success) {
+        this.addLog(`Failed to set ${range}`, "error");
+        return false;
+      }
+      this.addLog(`${range} set`, "success");
+    }
+    return true;
   },
 
   /**
@@ -1117,16 +2603,12 @@ export const robotService = {
    * Get error ID (Section 3.15)
    */
   async getErrorId() {
-    const command = CommandBuilder.getErrorId();
-    const response = await this.sendCommand(command);
-    if (response?.success) {
-      state.errorId = response.data;
-      this.addLog(
-        `Error ID: ${response.data}`,
-        response.data ? "error" : "info",
-      );
+    const errorId = await this.request("getErrorId");
+    if (errorId !== null) {
+      state.errorId = errorId;
+      this.addLog(`Error ID: ${errorId}`, errorId ? "error" : "info");
     }
-    return response;
+    return errorId;
   },
 
   /**
@@ -1185,8 +2667,35 @@ export const robotService = {
   },
 };
 
+// Frame from the last loadFrames / readFrame
+const findFrame = (type: FrameType, name: string) =>
+  (type === VarType.TOOL ? state.frames.tools : state.frames.userCoords).find(
+    (frame) => frame.name === name,
+  ) ?? null;
+
+const storeFrame = (frame: CoordinateFrame) => {
+  const list = frame.type === VarType.TOOL ? state.frames.tools : state.frames.userCoords;
+  const index = list.findIndex((entry) => entry.name === frame.name);
+  if (index >= 0) {
+    list[index] = frame;
+  } else {
+    list.push(frame);
+    list.sort((p, q) => p.name.localeCompare(q.name, undefined, { numeric: true }));
+  }
+  if (frame.type === VarType.TOOL && frame.name === state.frames.activeTool) {
+    motionGuard.setTool(frame.pose);
+  }
+};
+
+// Last position reading (guardMotion refreshes it when the guard uses it)
+const currentPosition = () => ({
+  joints: [...state.joints],
+  pose: { ...state.coordinates },
+});
+
 // --- SIMULATION LOGIC (for demo/testing) ---
 let simTimer: number | null = null;
+const simKinematics = new RobotKinematics();
 
 function startSimulation() {
   if (simTimer) return;
@@ -1195,15 +2704,23 @@ function startSimulation() {
   simTimer = window.setInterval(() => {
     const elapsed = (Date.now() - start) / 1000;
 
-    state.coordinates.x = +(300 + Math.sin(elapsed) * 15).toFixed(1);
-    state.coordinates.y = +(150 + Math.cos(elapsed * 0.8) * 15).toFixed(1);
-    state.coordinates.z = +(50 + Math.sin(elapsed * 0.5) * 10).toFixed(1);
-
     state.joints = state.joints.map((_, i) => {
       const offset = i * 0.5;
       return +(Math.sin(elapsed * 0.5 + offset) * 90).toFixed(1);
     });
 
+    // TCP follows the joints (flange, generic ER geometry)
+    const pose = simKinematics.forward(state.joints);
+    state.coordinates = {
+      ...simKinematics.configFlags(state.joints),
+      x: +pose.x.toFixed(1),
+      y: +pose.y.toFixed(1),
+      z: +pose.z.toFixed(1),
+      a: +pose.a.toFixed(1),
+      b: +pose.b.toFixed(1),
+      c: +pose.c.toFixed(1),
+    };
+
     if (Math.random() > 0.8) {
       state.camera.targets = [
         { x: 50, y: 50, w: 10, h: 10, cls: "TEST", conf: 0.99 },
@@ -0,0 +1,599 @@
+/**
+ * Robot Transport
+ * Single WebSocket link to the proxy server (server/index.js)
+ *
+ * Shared by robotService and RobotProtocolClient:
+ * - JSON messages in both directions, following shared/proxyMessages (versioned,
+ *   inbound messages are validated and invalid ones dropped)
+ * - Register reads and writes get a request id; request() resolves with the
+ *   reply carrying the same id
+ * - TCP string commands are correlated with their response by command id
+ *   ([Cmd(); id = X] -> [id = X; Ok; data])
+ * - Commands are serialized through a CommandQueue (stop commands bypass it)
+ * - Motion commands are tracked until their finish event ([FeedMovFinish: X], ...),
+ *   each passes the motion check (setMotionCheck) before it is queued
+ * - Optional automatic reconnect with exponential backoff and jitter
+ * - Optional TrafficRecorder sees every message in both directions
+ */
+
+import { ProtocolParser, type CommandResponse } from './robotProtocol';
+import { CommandQueue, reportsMotionFinish, type CommandOptions } from './commandQueue';
+import { TrafficDirection, type TrafficRecorder } from './trafficRecorder';
+import {
+  PROTOCOL_VERSION,
+  REPLY_TYPE,
+  validateProxyMessage,
+  type ClientMessage,
+  type Outgoing,
+  type ProxyMessage,
+  type RegisterReply,
+  type RegisterRequest,
+  type ReplyTo,
+  type RequestOf
+} from '../../shared/proxyMessages';
+import { computeReconnectDelay, type ReconnectPolicy } from '../../shared/reconnectPolicy';
+
+export type { ClientMessage, ProxyMessage, LeaseStateMessage, SessionClient } from '../../shared/proxyMessages';
+export { DEFAULT_RECONNECT_POLICY, computeReconnectDelay, type ReconnectPolicy } from '../../shared/reconnectPolicy';
+
+// Message as passed to send() (v and requestId are filled in)
+export type OutgoingMessage = Outgoing<ClientMessage>;
+
+// Events emitted by the transport
+export interface TransportEvents {
+  open: void;
+  close: { code: number; reason: string };
+  error: Error;
+  message: ProxyMessage;
+  reconnecting: { attempt: number; maxAttempts: number; delay: number };
+  reconnectFailed: { attempts: number };
+}
+
+// Completed move
+export interface MotionResult {
+  id: number;
+  motionType: string; // FeedMovFinish (commanded position) or ActMovFinish (actual position)
+}
+
+/**
+ * Handle of a queued move
+ * finished resolves on FeedMovFinish/ActMovFinish and rejects on
+ * RobotStop, SafeDoorIsOpen, FAIL, timeout, cancel or disconnect
+ */
+export interface MotionHandle {
+  id: number;
+  command: string;
+  finished: Promise<MotionResult>;
+}
+
+// Runs before a motion command is queued, rejects to refuse it (motion guard)
+export type MotionCheck = (command: string) => Promise<void>;
+
+type TransportHandler<K extends keyof TransportEvents> = (payload: TransportEvents[K]) => void;
+
+// Pending command tracking
+interface PendingCommand {
+  id: number;
+  command: string;
+  resolve: (response: CommandResponse) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Register request waiting for its reply
+interface PendingRequest {
+  type: RegisterRequest['type'];
+  resolve: (reply: RegisterReply) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Move waiting for its finish event
+interface PendingMotion {
+  id: number;
+  command: string;
+  resolve: (result: MotionResult) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Extract command ID from a formatted command or response frame
+ * Accepts both "id=X" and "id = X"
+ */
+export function extractCommandId(frame: string): number | null {
+  const idMatch = frame.match(/id\s*=\s*(\d+)/i);
+  if (!idMatch || !idMatch[1]) return null;
+  return parseInt(idMatch[1]);
+}
+
+export class RobotTransport {
+  private socket: WebSocket | null = null;
+  private pendingCommands: Map<number, PendingCommand> = new Map();
+  private pendingMotions: Map<number, PendingMotion> = new Map();
+  private pendingRequests: Map<number, PendingRequest> = new Map();
+  private lastRequestId: number = 0;
+  private handlers: { [K in keyof TransportEvents]: Set<TransportHandler<K>> } = {
+    open: new Set(),
+    close: new Set(),
+    error: new Set(),
+    message: new Set(),
+    reconnecting: new Set(),
+    reconnectFailed: new Set()
+  };
+  private commandTimeout: number = 5000; // 5 seconds default timeout
+  private motionTimeout: number = 60000; // 60 seconds default per move
+  private requestTimeout: number = 2000; // Register read / write reply
+  private reconnectPolicy: ReconnectPolicy | null;
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasOpened: boolean = false;
+  private closedByUser: boolean = false;
+  private rejectConnect: ((error: Error) => void) | null = null;  // connect() still opening
+  private recorder: TrafficRecorder | null = null;
+  private motionCheck: MotionCheck | null = null;
+  readonly url: string;
+  readonly queue: CommandQueue;
+
+  constructor(url: string, reconnectPolicy: ReconnectPolicy | null = null) {
+    this.url = url;
+    this.reconnectPolicy = reconnectPolicy;
+    this.queue = new CommandQueue((command, timeout) => this.dispatchCommand(command, timeout));
+  }
+
+  /**
+   * Subscribe to transport event
+   * Returns unsubscribe function
+   */
+  on<K extends keyof TransportEvents>(event: K, handler: TransportHandler<K>): () => void {
+    this.handlers[event].add(handler);
+    return () => {
+      this.handlers[event].delete(handler);
+    };
+  }
+
+  private emit<K extends keyof TransportEvents>(event: K, payload: TransportEvents[K]) {
+    for (const handler of [...this.handlers[event]]) {
+      handler(payload);
+    }
+  }
+
+  /**
+   * Open WebSocket connection to proxy server
+   */
+  connect(): Promise<void> {
+    this.closedByUser = false;
+    this.detachSocket();
+    return new Promise((resolve, reject) => {
+      try {
+        this.socket = new WebSocket(this.url);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const socket = this.socket;
+      this.rejectConnect = reject;
+
+      socket.onopen = () => {
+        this.rejectConnect = null;
+        this.hasOpened = true;
+        this.reconnectAttempt = 0;
+        this.emit('open', undefined);
+        resolve();
+      };
+
+      let finished = false;
+      const finish = (code: number, reason: string) => {
+        if (finished) return;
+        finished = true;
+        // Ignore sockets superseded by a newer connect()
+        if (this.socket && this.socket !== socket) return;
+        this.socket = null;
+        this.rejectAllPending('Connection closed');
+        this.emit('close', { code, reason });
+
+        // Only links that were up once are restored automatically
+        if (this.reconnectPolicy && this.hasOpened && !this.closedByUser) {
+          this.scheduleReconnect(this.reconnectPolicy);
+        }
+      };
+
+      socket.onclose = (event) => finish(event.code, event.reason);
+
+      socket.onerror = () => {
+        this.rejectConnect = null;
+        const error = new Error('WebSocket connection error');
+        this.emit('error', error);
+        reject(error);
+        // Not every WebSocket implementation fires close after a failed handshake
+        if (socket.readyState !== WebSocket.OPEN) finish(1006, '');
+      };
+
+      socket.onmessage = (event) => {
+        this.handleMessage(event.data);
+      };
+    });
+  }
+
+  /**
+   * Close the socket of a previous connect() without emitting close,
+   * its connect() promise rejects if it was still opening
+   */
+  private detachSocket() {
+    const socket = this.socket;
+    if (!socket) return;
+    this.socket = null;
+    socket.onopen = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.onmessage = null;
+    socket.close();
+    this.rejectConnect?.(new Error('Superseded by a newer connection'));
+    this.rejectConnect = null;
+  }
+
+  /**
+   * Close WebSocket connection (no automatic reconnect)
+   */
+  close() {
+    this.closedByUser = true;
+    this.cancelReconnect();
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.rejectAllPending('Disconnected');
+  }
+
+  /**
+   * Check if WebSocket is open
+   */
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Check if a reconnect attempt is scheduled
+   */
+  get reconnecting(): boolean {
+    return this.reconnectTimer !== null;
+  }
+
+  /**
+   * Schedule next reconnect attempt or give up after maxAttempts
+   */
+  private scheduleReconnect(policy: ReconnectPolicy) {
+    if (this.reconnectAttempt >= policy.maxAttempts) {
+      this.emit('reconnectFailed', { attempts: this.reconnectAttempt });
+      this.reconnectAttempt = 0;
+      return;
+    }
+
+    this.reconnectAttempt++;
+    const delay = computeReconnectDelay(policy, this.reconnectAttempt);
+    this.emit('reconnecting', {
+      attempt: this.reconnectAttempt,
+      maxAttempts: policy.maxAttempts,
+      delay
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => {
+        // Failed attempt closes the socket, which schedules the next one
+      });
+    }, delay);
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+  }
+
+  /**
+   * Attach recorder for outbound and inbound messages (null detaches)
+   */
+  setRecorder(recorder: TrafficRecorder | null) {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Check every motion command before it is queued (sendMotion)
+   */
+  setMotionCheck(check: MotionCheck | null) {
+    this.motionCheck = check;
+  }
+
+  /**
+   * Send JSON message to proxy server
+   * Stamps the protocol version; register requests without a requestId get a new one
+   */
+  send(message: OutgoingMessage): boolean {
+    if (!this.connected) return false;
+    const requestId = message.requestId ?? (message.type in REPLY_TYPE ? this.nextRequestId() : undefined);
+    const stamped = { ...message, v: PROTOCOL_VERSION, requestId } as ClientMessage;
+    this.recorder?.record(TrafficDirection.OUT, stamped);
+    this.socket?.send(JSON.stringify(stamped));
+    return true;
+  }
+
+  /**
+   * Send register request without waiting, returns its requestId (null if not connected)
+   * The reply arrives as a "message" event carrying that requestId
+   */
+  post<K extends RegisterRequest['type']>(message: RequestOf<K>): number | null {
+    if (!this.connected) return null;
+    const requestId = this.nextRequestId();
+    this.send({ ...message, requestId } as unknown as OutgoingMessage);
+    return requestId;
+  }
+
+  /**
+   * Send register request and wait for the reply with its requestId
+   * Resolves with REGISTER_DATA / REGISTER_WRITTEN / INPUT_DATA / COIL_DATA,
+   * rejects with the proxy's ERROR message, on timeout or disconnect
+   */
+  request<K extends RegisterRequest['type']>(
+    message: RequestOf<K>,
+    timeout: number = this.requestTimeout
+  ): Promise<ReplyTo<K>> {
+    return new Promise((resolve, reject) => {
+      if (!this.connected) {
+        reject(new Error('Not connected to proxy'));
+        return;
+      }
+
+      const requestId = this.nextRequestId();
+      const timer = setTimeout(() => {
+        if (this.pendingRequests.delete(requestId)) {
+          reject(new Error(`${message.type} ${message.addr} not answered within ${timeout}ms`));
+        }
+      }, timeout);
+
+      this.pendingRequests.set(requestId, {
+        type: message.type,
+        resolve: resolve as (reply: RegisterReply) => void,
+        reject,
+        timer
+      });
+      this.send({ ...message, requestId } as unknown as OutgoingMessage);
+    });
+  }
+
+  private nextRequestId(): number {
+    this.lastRequestId = this.lastRequestId >= Number.MAX_SAFE_INTEGER ? 1 : this.lastRequestId + 1;
+    return this.lastRequestId;
+  }
+
+  /**
+   * Queue TCP string command and wait for the response with the same id
+   * Resolves with the parsed response (Ok or FAIL), rejects on timeout, cancel or disconnect
+   */
+  sendCommand(command: string, options?: CommandOptions): Promise<CommandResponse> {
+    // Moves go through sendMotion, which tracks and checks them
+    if (reportsMotionFinish(command)) {
+      return Promise.reject(new Error(`Motion command must be sent with sendMotion: ${command}`));
+    }
+    return this.queue.enqueue(command, options);
+  }
+
+  /**
+   * Queue motion command and track it until the move ends
+   * options.timeout limits the whole move (counted from the moment it is sent)
+   * A move refused by the motion check is never sent, finished rejects with the reason
+   */
+  sendMotion(command: string, options: CommandOptions = {}): MotionHandle {
+    const id = extractCommandId(command);
+    const finished = new Promise<MotionResult>((resolve, reject) => {
+      if (id === null) {
+        reject(new Error('Invalid command format - missing ID'));
+        return;
+      }
+      if (!reportsMotionFinish(command)) {
+        reject(new Error(`Not a tracked motion command: ${command}`));
+        return;
+      }
+      if (this.pendingMotions.has(id)) {
+        reject(new Error(`Motion id ${id} is already pending`));
+        return;
+      }
+
+      const motion: PendingMotion = { id, command, resolve, reject, timer: null };
+      this.pendingMotions.set(id, motion);
+
+      const timeout = options.timeout || this.motionTimeout;
+      const check = this.motionCheck?.(command) ?? Promise.resolve();
+      check
+        .then(() => {
+          // Settled while it was checked (disconnect)
+          if (this.pendingMotions.get(id) !== motion) return;
+          return this.queue.enqueue(command, { ...options, timeout }).then(() => {
+            if (this.pendingMotions.get(id) !== motion) return;
+            motion.timer = setTimeout(() => {
+              this.settleMotion(id, (pending) => pending.reject(new Error(`Motion timeout: ${command}`)));
+            }, timeout);
+          });
+        })
+        .catch((error: Error) => this.settleMotion(id, (pending) => pending.reject(error)));
+    });
+
+    // Fire-and-forget moves must not raise unhandled rejections
+    finished.catch(() => {});
+
+    return { id: id ?? 0, command, finished };
+  }
+
+  /**
+   * Write command to the proxy and track it until its response arrives
+   * Motion commands resolve once written, their outcome arrives as a finish event
+   */
+  private dispatchCommand(command: string, timeout?: number): Promise<CommandResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.connected) {
+        reject(new Error('Not connected to robot'));
+        return;
+      }
+
+      const id = extractCommandId(command);
+      if (id === null) {
+        reject(new Error('Invalid command format - missing ID'));
+        return;
+      }
+
+      if (reportsMotionFinish(command)) {
+        this.send({
+          type: 'ROBOT_COMMAND',
+          command,
+          timeout: timeout || this.motionTimeout
+        });
+        resolve({ id, success: true, data: { type: 'MOVE_STARTED' } });
+        return;
+      }
+
+      if (this.pendingCommands.has(id)) {
+        reject(new Error(`Command id ${id} is already pending`));
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        if (this.pendingCommands.get(id)?.timer === timer) {
+          this.pendingCommands.delete(id);
+          reject(new Error(`Command timeout: ${command}`));
+        }
+      }, timeout || this.commandTimeout);
+
+      this.pendingCommands.set(id, { id, command, resolve, reject, timer });
+
+      this.send({
+        type: 'ROBOT_COMMAND',
+        command
+      });
+    });
+  }
+
+  /**
+   * Handle incoming message from server
+   */
+  private handleMessage(data: string) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      this.emit('error', new Error(`Message parse error: ${(error as Error).message} | Raw: ${data}`));
+      return;
+    }
+
+    let message: ProxyMessage;
+    try {
+      message = validateProxyMessage(parsed);
+    } catch (error) {
+      this.emit('error', new Error(`Invalid proxy message: ${(error as Error).message} | Raw: ${data}`));
+      return;
+    }
+    this.recorder?.record(TrafficDirection.IN, message);
+
+    this.settleRequest(message);
+
+    if (message.type === 'ROBOT_RESPONSE') {
+      const responseStr: string = message.response || '';
+      const response = ProtocolParser.parseResponse(responseStr);
+      if (response) {
+        if (/^\s*\[id\s*=/i.test(responseStr)) {
+          // Acknowledgement frame ([id = X; ...]) completes a command,
+          // for a move only FAIL matters (it never starts)
+          this.settle(response.id, (pending) => pending.resolve(response));
+          if (!response.success) {
+            this.settleMotion(response.id, (motion) => motion.reject(new Error(`Move rejected: ${motion.command}`)));
+          }
+        } else {
+          // Motion event ([FeedMovFinish: X], [RobotStop: X], ...)
+          this.settleMotion(response.id, (motion) => {
+            if (response.success) {
+              motion.resolve({ id: response.id, motionType: response.data?.motionType || '' });
+            } else {
+              motion.reject(new Error(response.error || 'Motion failed'));
+            }
+          });
+        }
+      }
+    } else if (message.type === 'COMMAND_ERROR') {
+      // Proxy could not deliver the command (timeout, robot offline)
+      const id = message.command ? extractCommandId(message.command) : null;
+      if (id !== null) {
+        const error = new Error(message.error || 'Command failed');
+        this.settle(id, (pending) => pending.reject(error));
+        this.settleMotion(id, (motion) => motion.reject(error));
+      }
+    } else if (message.type === 'STATUS' && !message.connected) {
+      this.rejectAllPending(message.error || 'Robot disconnected');
+    }
+
+    this.emit('message', message);
+  }
+
+  /**
+   * Remove pending command and complete it
+   */
+  private settle(id: number, complete: (pending: PendingCommand) => void) {
+    const pending = this.pendingCommands.get(id);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    this.pendingCommands.delete(id);
+    complete(pending);
+  }
+
+  /**
+   * Complete the register request a reply or ERROR belongs to
+   */
+  private settleRequest(message: ProxyMessage) {
+    if (!('requestId' in message) || message.requestId === undefined) return;
+    const pending = this.pendingRequests.get(message.requestId);
+    if (!pending) return;
+
+    if (message.type === 'ERROR') {
+      pending.reject(new Error(message.message));
+    } else if (message.type === REPLY_TYPE[pending.type]) {
+      pending.resolve(message as RegisterReply);
+    } else {
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(message.requestId);
+  }
+
+  /**
+   * Remove pending move and complete it
+   */
+  private settleMotion(id: number, complete: (motion: PendingMotion) => void) {
+    const motion = this.pendingMotions.get(id);
+    if (!motion) return;
+    if (motion.timer) clearTimeout(motion.timer);
+    this.pendingMotions.delete(id);
+    complete(motion);
+  }
+
+  /**
+   * Reject all queued and pending commands, register requests and moves
+   */
+  private rejectAllPending(reason: string) {
+    this.queue.clear(reason);
+    for (const [requestId, pending] of this.pendingRequests) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+      this.pendingRequests.delete(requestId);
+    }
+    for (const [id, pending] of this.pendingCommands) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+      this.pendingCommands.delete(id);
+    }
+    for (const id of [...this.pendingMotions.keys()]) {
+      this.settleMotion(id, (motion) => motion.reject(new Error(reason)));
+    }
+  }
+}
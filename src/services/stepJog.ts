@@ -0,0 +1,86 @@
+/**
+ * Step Jog
+ * Targets for incremental jogging: one axis moves by exactly one increment per click
+ *
+ * - Axes 1-3 move by a distance (mm), axes 4-6 by an angle (deg); in the JOINT frame
+ *   every axis is a joint and moves by the angle
+ * - WORLD steps along the base axes, TOOL along the axes of the current TCP (active tool),
+ *   USER along the axes of the active user frame
+ * - Targets are computed from the last position reading; the move itself is a
+ *   MovePointV3 joint (JOINT) or linear (others) move
+ */
+
+import { CoordType } from './robotProtocol';
+import {
+  invertRigid,
+  matrixToPose,
+  multiply,
+  poseToMatrix,
+  IDENTITY_POSE,
+  type Pose
+} from './poseMath';
+
+export const STEP_DISTANCES = [0.1, 1, 10] as const;  // mm
+export const STEP_ANGLES = [0.1, 1, 5] as const;      // deg
+
+// Move speed (% of global speed), steps stop exactly on the target (blend 0)
+export const STEP_SPEED = 20;
+
+export type StepDirection = 1 | -1;
+
+export interface StepSize {
+  distance: number;  // mm, axes 1-3 of a Cartesian frame
+  angle: number;     // deg, joints and axes 4-6 of a Cartesian frame
+}
+
+const POSE_KEYS = ['x', 'y', 'z', 'a', 'b', 'c'] as const;
+
+const checkAxis = (axis: number) => {
+  if (!Number.isInteger(axis) || axis < 1 || axis > 6) {
+    throw new Error(`Invalid step axis ${axis} (expected 1..6)`);
+  }
+};
+
+/**
+ * Joint target one angle step away from the current joints
+ */
+export function stepJoints(joints: number[], axis: number, direction: StepDirection, size: StepSize): number[] {
+  checkAxis(axis);
+  return joints.map((joint, i) => (i === axis - 1 ? joint + direction * size.angle : joint));
+}
+
+/**
+ * World target one step away from the current TCP pose
+ * userFrame: active user frame relative to the base (USER only)
+ */
+export function stepPose(
+  current: Pose,
+  coordType: CoordType,
+  axis: number,
+  direction: StepDirection,
+  size: StepSize,
+  userFrame: Pose = IDENTITY_POSE
+): Pose {
+  checkAxis(axis);
+  if (coordType === CoordType.JOINT) {
+    throw new Error('Joint steps have no Cartesian target, use stepJoints');
+  }
+
+  const delta = { ...IDENTITY_POSE };
+  delta[POSE_KEYS[axis - 1]!] = direction * (axis <= 3 ? size.distance : size.angle);
+  const step = poseToMatrix(delta);
+  const tcp = poseToMatrix(current);
+
+  if (coordType === CoordType.TOOL) {
+    // Along / about the TCP's own axes
+    return matrixToPose(multiply(tcp, step));
+  }
+
+  // Along / about the frame axes, rotating about the TCP rather than the frame origin:
+  // move the TCP into the frame, apply the step at the TCP position, move it back
+  const frame = coordType === CoordType.USER ? poseToMatrix(userFrame) : poseToMatrix(IDENTITY_POSE);
+  const inFrame = multiply(invertRigid(frame), tcp);
+  const origin = poseToMatrix({ ...IDENTITY_POSE, x: inFrame[0][3], y: inFrame[1][3], z: inFrame[2][3] });
+  const stepped = multiply(multiply(origin, multiply(step, invertRigid(origin))), inFrame);
+  return matrixToPose(multiply(frame, stepped));
+}
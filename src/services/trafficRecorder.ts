@@ -0,0 +1,196 @@
+/**
+ * Traffic Recorder
+ * Records proxy traffic of a RobotTransport into a session file and replays it
+ *
+ * - Outbound: every message sent to the proxy (ROBOT_COMMAND, CONNECT, READ_REGISTER, ...)
+ * - Inbound: every message from the proxy (ROBOT_RESPONSE frames, REGISTER_DATA, STATUS, ...)
+ * - Entries carry the time since recording started, so a replay keeps the original pacing
+ * - Replay only feeds inbound messages, in recorded order, to a handler
+ */
+
+import type { ClientMessage, ProxyMessage } from './robotTransport';
+
+export const TRAFFIC_SESSION_VERSION = 1;
+
+// Direction as seen from the browser
+export const TrafficDirection = {
+  OUT: 'out',
+  IN: 'in'
+} as const;
+export type TrafficDirection = typeof TrafficDirection[keyof typeof TrafficDirection];
+
+export interface TrafficEntry {
+  t: number;                 // ms since recording started
+  dir: TrafficDirection;
+  message: ClientMessage | ProxyMessage;
+}
+
+// Content of a session file
+export interface TrafficSession {
+  version: number;
+  startedAt: string;         // ISO timestamp
+  url: string;               // Proxy the session was recorded from
+  entries: TrafficEntry[];
+}
+
+export interface ReplayOptions {
+  speed?: number;            // 1 = recorded pacing, 2 = twice as fast, 0 = all at once
+  signal?: AbortSignal;      // Stops a paced replay
+  onProgress?: (position: number, total: number) => void;
+}
+
+export class TrafficRecorder {
+  private entries: TrafficEntry[] = [];
+  private startTime: number = 0;
+  private startedAt: string = '';
+  private url: string = '';
+  private active: boolean = false;
+
+  /**
+   * Start new recording (drops the previous one)
+   */
+  start(url: string) {
+    this.entries = [];
+    this.startTime = Date.now();
+    this.startedAt = new Date(this.startTime).toISOString();
+    this.url = url;
+    this.active = true;
+  }
+
+  /**
+   * Stop recording and return the session
+   */
+  stop(): TrafficSession {
+    this.active = false;
+    return this.session;
+  }
+
+  get recording(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Number of recorded entries
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Session recorded so far
+   */
+  get session(): TrafficSession {
+    return {
+      version: TRAFFIC_SESSION_VERSION,
+      startedAt: this.startedAt,
+      url: this.url,
+      entries: [...this.entries]
+    };
+  }
+
+  /**
+   * Add message (ignored while not recording)
+   */
+  record(dir: TrafficDirection, message: ClientMessage | ProxyMessage) {
+    if (!this.active) return;
+    // Copy so later mutations of the message do not change the recording
+    this.entries.push({ t: Date.now() - this.startTime, dir, message: structuredClone(message) });
+  }
+}
+
+/**
+ * Serialize session for a session file
+ */
+export function serializeSession(session: TrafficSession): string {
+  return JSON.stringify(session, null, 2);
+}
+
+/**
+ * Parse and validate session file content
+ */
+export function parseSession(text: string): TrafficSession {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid session file: ${(error as Error).message}`);
+  }
+
+  if (!data || data.version !== TRAFFIC_SESSION_VERSION || !Array.isArray(data.entries)) {
+    throw new Error(`Invalid session file: expected version ${TRAFFIC_SESSION_VERSION} with entries`);
+  }
+
+  const directions: string[] = Object.values(TrafficDirection);
+  data.entries.forEach((entry: any, i: number) => {
+    if (typeof entry?.t !== 'number' || !directions.includes(entry.dir) || typeof entry.message !== 'object' || !entry.message) {
+      throw new Error(`Invalid session file: malformed entry ${i}`);
+    }
+  });
+
+  return {
+    version: data.version,
+    startedAt: String(data.startedAt ?? ''),
+    url: String(data.url ?? ''),
+    entries: data.entries
+  };
+}
+
+/**
+ * Feed inbound messages of a session to handler in recorded order
+ * speed 0 delivers everything synchronously; otherwise the recorded gaps are kept
+ * Resolves with the number of delivered messages
+ */
+export function replaySession(
+  session: TrafficSession,
+  handler: (message: ProxyMessage) => void,
+  options: ReplayOptions = {}
+): Promise<number> {
+  const { speed = 0, signal, onProgress } = options;
+  const inbound = session.entries
+    .filter(entry => entry.dir === TrafficDirection.IN)
+    .sort((a, b) => a.t - b.t);
+  const total = inbound.length;
+
+  if (speed <= 0) {
+    inbound.forEach((entry, i) => {
+      handler(entry.message as ProxyMessage);
+      onProgress?.(i + 1, total);
+    });
+    return Promise.resolve(total);
+  }
+
+  return new Promise((resolve, reject) => {
+    let position = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const origin = inbound[0]?.t ?? 0;
+    const startTime = Date.now();
+
+    const onAbort = () => {
+      if (timer) clearTimeout(timer);
+      reject(new Error(`Replay stopped at ${position}/${total}`));
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Schedule against the replay start so delays do not accumulate
+    const next = () => {
+      const entry = inbound[position];
+      if (!entry) {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(total);
+        return;
+      }
+      const due = startTime + (entry.t - origin) / speed;
+      timer = setTimeout(() => {
+        handler(entry.message as ProxyMessage);
+        position++;
+        onProgress?.(position, total);
+        next();
+      }, Math.max(0, due - Date.now()));
+    };
+    next();
+  });
+}